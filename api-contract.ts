@@ -0,0 +1,379 @@
+import { z, type ZodError } from "zod";
+import { configObjectSchema } from "./config-schema";
+import { lastRunSchema } from "./last-run";
+import { LOG_LEVELS } from "./log-format";
+import type { Cache } from "./status-cache";
+
+// Requests and responses of the Config UI API. ui-server.ts validates against these
+// schemas and the browser app parses responses with them, so both sides stay in step.
+
+export function formatZodError(error: ZodError) {
+  return error.errors
+    .map((issue) => {
+      const path = issue.path.length > 0 ? issue.path.join(".") : "payload";
+      return `${path}: ${issue.message}`;
+    })
+    .join("; ");
+}
+
+export const configIssueSchema = z
+  .object({
+    path: z.string(),
+    message: z.string(),
+  })
+  .strict();
+
+// Every failed request answers with this; `issues` is set when the config was invalid.
+export const apiErrorResponseSchema = z
+  .object({
+    ok: z.literal(false),
+    error: z.string(),
+    issues: z.array(configIssueSchema).optional(),
+  })
+  .strict();
+
+export type ApiErrorResponse = z.infer<typeof apiErrorResponseSchema>;
+
+export const configMetaSchema = z
+  .object({
+    path: z.string(),
+    exists: z.boolean(),
+    // Also sent as the ETag; send it back as If-Match to reject writes over newer changes.
+    version: z.string().nullable(),
+  })
+  .strict();
+
+export const tokenDescriptionSchema = z
+  .object({
+    workspace: z.string(),
+    source: z.enum(["inline", "env", "file", "keyring"]),
+    masked: z.string().nullable(),
+    valid: z.boolean(),
+    error: z.string().optional(),
+  })
+  .strict();
+
+// PUT /api/config and PUT /api/ui-config take the whole config. Tokens are sent back
+// masked as they were received, which keeps the stored ones.
+export const configRequestSchema = configObjectSchema;
+
+export type ConfigRequest = z.infer<typeof configRequestSchema>;
+
+// GET and PUT /api/config: the config with defaults applied.
+export const configResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    config: configObjectSchema,
+    tokens: z.array(tokenDescriptionSchema),
+    meta: configMetaSchema,
+  })
+  .strict();
+
+export type ConfigResponse = z.infer<typeof configResponseSchema>;
+
+// GET and PUT /api/ui-config: the config as stored, so the form can tell defaults apart.
+export const uiConfigResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    config: configObjectSchema,
+    meta: configMetaSchema,
+  })
+  .strict();
+
+export type UiConfigResponse = z.infer<typeof uiConfigResponseSchema>;
+
+export const configChangeSchema = z
+  .object({
+    path: z.string(),
+    kind: z.enum(["added", "removed", "changed"]),
+    before: z.unknown().optional(),
+    after: z.unknown().optional(),
+  })
+  .strict();
+
+export type ConfigChangeResponse = z.infer<typeof configChangeSchema>;
+
+// GET /api/config/history: earlier versions, newest first, with what restoring each
+// would change in the current config. POST /api/config/history/:id/restore answers
+// like PUT /api/ui-config.
+export const configHistoryResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    snapshots: z.array(
+      z
+        .object({
+          id: z.string(),
+          createdAt: z.number(),
+          changes: z.array(configChangeSchema),
+          error: z.string().optional(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+export type ConfigHistoryResponse = z.infer<typeof configHistoryResponseSchema>;
+
+// GET /api/status: the updater's last run and its cache. Either is null before the
+// first run, and comes with an error instead when its file cannot be read.
+export const statusResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    lastRun: lastRunSchema.nullable(),
+    lastRunError: z.string().optional(),
+    // Checked with parseCache on the server; status-cache.ts uses node modules, so the
+    // browser only shares its type.
+    cache: z
+      .custom<Cache>((value) => typeof value === "object" && value !== null)
+      .nullable(),
+    cacheError: z.string().optional(),
+  })
+  .strict();
+
+export type StatusResponse = z.infer<typeof statusResponseSchema>;
+
+// GET /api/workspaces: each configured workspace with its settings and the outcome of
+// the updater's last run for it.
+export const workspacesResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    workspaces: z.array(
+      z
+        .object({
+          name: z.string(),
+          statusTemplate: z.string(),
+          statusEmoji: z.string(),
+          alwaysOverride: z.boolean(),
+          lastResult: z
+            .object({
+              outcome: z.enum([
+                "updated",
+                "restored",
+                "cleared",
+                "skipped",
+                "failed",
+              ]),
+              message: z.string(),
+              since: z.number(),
+            })
+            .nullable(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+export type WorkspacesResponse = z.infer<typeof workspacesResponseSchema>;
+
+// GET /api/slack/oauth: whether "Connect with Slack" is available.
+export const oauthStatusResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    enabled: z.boolean(),
+  })
+  .strict();
+
+export type OAuthStatusResponse = z.infer<typeof oauthStatusResponseSchema>;
+
+// POST /api/slack/test checks every workspace, or only the one named.
+export const slackTestRequestSchema = z
+  .object({
+    workspace: z.string().trim().min(1).optional(),
+  })
+  .strict();
+
+export type SlackTestRequest = z.input<typeof slackTestRequestSchema>;
+
+export const slackTestResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    results: z.array(
+      z
+        .object({
+          workspace: z.string(),
+          tokenSource: z.string(),
+          ok: z.boolean(),
+          team: z.string().nullable().optional(),
+          teamId: z.string().nullable().optional(),
+          url: z.string().nullable().optional(),
+          user: z.string().nullable().optional(),
+          userId: z.string().nullable().optional(),
+          scopes: z.array(z.string()).nullable().optional(),
+          missingScopes: z.array(z.string()).optional(),
+          statusText: z.string().optional(),
+          statusEmoji: z.string().optional(),
+          errorKind: z.string().optional(),
+          error: z.string().optional(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+export type SlackTestResponse = z.infer<typeof slackTestResponseSchema>;
+
+export const logStreamSchema = z.enum(["stdout", "stderr"]);
+
+export type LogStream = z.infer<typeof logStreamSchema>;
+
+const logLevelListSchema = z
+  .string()
+  .transform((value) =>
+    value
+      .split(",")
+      .map((level) => level.trim().toUpperCase())
+      .filter(Boolean)
+  )
+  .pipe(z.array(z.enum(LOG_LEVELS)).min(1));
+
+// Any date Date.parse reads; without a zone it is the server's local time.
+const logTimeSchema = z.string().transform((value, context) => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Must be a date and time, such as 2026-10-19T14:00:00Z.",
+    });
+    return z.NEVER;
+  }
+  return time;
+});
+
+// Case-insensitive, like the search box it comes from.
+const logPatternSchema = z.string().transform((value, context) => {
+  try {
+    return new RegExp(value, "i");
+  } catch {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Must be a valid regular expression.",
+    });
+    return z.NEVER;
+  }
+});
+
+// GET /api/logs returns the newest `limit` lines that pass every filter given, oldest
+// first. Pass `nextCursor` back as `cursor` for the page before it. `archive` reads a
+// rotated log listed by GET /api/logs/archives instead of the current one.
+export const logsQuerySchema = z
+  .object({
+    stream: logStreamSchema.optional().default("stdout"),
+    limit: z.coerce.number().int().min(1).max(10000).optional().default(2500),
+    level: logLevelListSchema.optional(), // e.g. WARN,ERROR
+    since: logTimeSchema.optional(),
+    until: logTimeSchema.optional(),
+    runId: z.string().trim().min(1).optional(),
+    metadata: z.string().trim().min(1).optional(), // key or key=value
+    q: logPatternSchema.optional(),
+    cursor: z
+      .string()
+      .regex(/^\d+$/, "Must be the nextCursor of an earlier page.")
+      .transform(Number)
+      .optional(),
+    archive: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type LogsQuery = z.input<typeof logsQuerySchema>;
+
+export const logsResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    stream: logStreamSchema,
+    path: z.string(),
+    lines: z.array(z.string()),
+    truncated: z.boolean(), // older lines pass the filters too
+    nextCursor: z.string().nullable(),
+    missing: z.boolean(),
+    configError: z.string().optional(),
+  })
+  .strict();
+
+export type LogsResponse = z.infer<typeof logsResponseSchema>;
+
+// Rotated logs of one stream, newest first.
+export const logArchivesQuerySchema = z
+  .object({
+    stream: logStreamSchema.optional().default("stdout"),
+  })
+  .strict();
+
+export type LogArchivesQuery = z.input<typeof logArchivesQuerySchema>;
+
+export const logArchivesResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    stream: logStreamSchema,
+    archives: z.array(
+      z
+        .object({
+          name: z.string(),
+          size: z.number().int().min(0), // compressed
+          rotatedAt: z.number(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+export type LogArchivesResponse = z.infer<typeof logArchivesResponseSchema>;
+
+// GET /api/logs/stream takes the same query as GET /api/logs, less the cursor and
+// archive, and sends server-sent events, each a JSON object with only the lines that
+// pass the filters. "reset" replaces what the client shows: it comes first, and again
+// whenever the file is rotated, cleared or removed.
+export const logStreamQuerySchema = logsQuerySchema.omit({
+  cursor: true,
+  archive: true,
+});
+
+export type LogStreamQuery = z.input<typeof logStreamQuerySchema>;
+
+export const logStreamEventSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("reset"),
+      reason: z.enum(["start", "truncated", "cleared", "missing"]),
+      path: z.string(),
+      lines: z.array(z.string()),
+      truncated: z.boolean(),
+      missing: z.boolean(),
+      configError: z.string().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("append"),
+      lines: z.array(z.string()),
+    })
+    .strict(),
+  // Reading the file failed; the stream keeps trying.
+  z
+    .object({
+      type: z.literal("error"),
+      error: z.string(),
+    })
+    .strict(),
+]);
+
+export type LogStreamEvent = z.infer<typeof logStreamEventSchema>;
+
+// DELETE /api/logs
+export const clearLogsQuerySchema = z
+  .object({
+    stream: logStreamSchema.optional().default("stdout"),
+  })
+  .strict();
+
+export type ClearLogsQuery = z.input<typeof clearLogsQuerySchema>;
+
+export const clearLogsResponseSchema = z
+  .object({
+    ok: z.literal(true),
+    stream: logStreamSchema,
+    path: z.string(),
+    missing: z.boolean(),
+  })
+  .strict();
+
+export type ClearLogsResponse = z.infer<typeof clearLogsResponseSchema>;
@@ -0,0 +1,151 @@
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+
+// How many earlier versions of a config file are kept.
+export const CONFIG_HISTORY_LIMIT = 20;
+
+export type ConfigSnapshot = {
+  id: string;
+  createdAt: number; // epoch milliseconds
+  content: string;
+};
+
+export type ConfigChange = {
+  path: string; // dotted, e.g. "workspaces.0.statusEmoji"
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+};
+
+// Ids are the snapshot time, with a counter when two writes share a millisecond.
+const SNAPSHOT_ID_PATTERN = /^(\d+)(?:-\d+)?$/;
+
+export function getConfigHistoryDirectory(configFilePath: string) {
+  return path.join(
+    path.dirname(configFilePath),
+    ".config-history",
+    path.basename(configFilePath, ".json")
+  );
+}
+
+function compareSnapshotIds(left: string, right: string) {
+  const [leftTime, leftCounter = "0"] = left.split("-");
+  const [rightTime, rightCounter = "0"] = right.split("-");
+  return (
+    Number(leftTime) - Number(rightTime) ||
+    Number(leftCounter) - Number(rightCounter)
+  );
+}
+
+async function listSnapshotIds(directory: string) {
+  if (!existsSync(directory)) return [];
+  const entries = await readdir(directory);
+  return entries
+    .filter((entry) => entry.endsWith(".json"))
+    .map((entry) => entry.slice(0, -".json".length))
+    .filter((id) => SNAPSHOT_ID_PATTERN.test(id))
+    .sort(compareSnapshotIds);
+}
+
+// Keeps the file's current contents before it is overwritten with `nextContent`.
+export async function saveConfigSnapshot(
+  configFilePath: string,
+  nextContent: string,
+  limit = CONFIG_HISTORY_LIMIT
+) {
+  if (!existsSync(configFilePath)) return undefined;
+  const content = await readFile(configFilePath, "utf8");
+  if (content === nextContent) return undefined;
+
+  const directory = getConfigHistoryDirectory(configFilePath);
+  await mkdir(directory, { recursive: true });
+  const now = Date.now();
+  let id = String(now);
+  for (
+    let counter = 1;
+    existsSync(path.join(directory, `${id}.json`));
+    counter += 1
+  ) {
+    id = `${now}-${counter}`;
+  }
+  // Snapshots may hold inline tokens, so only the owner can read them.
+  await writeFile(path.join(directory, `${id}.json`), content, {
+    encoding: "utf8",
+    mode: 0o600,
+  });
+
+  const ids = await listSnapshotIds(directory);
+  for (const staleId of ids.slice(0, Math.max(0, ids.length - limit))) {
+    await rm(path.join(directory, `${staleId}.json`), { force: true });
+  }
+  return id;
+}
+
+export async function readConfigSnapshot(
+  configFilePath: string,
+  id: string
+): Promise<ConfigSnapshot | undefined> {
+  const match = SNAPSHOT_ID_PATTERN.exec(id);
+  if (!match) return undefined;
+  const filePath = path.join(
+    getConfigHistoryDirectory(configFilePath),
+    `${id}.json`
+  );
+  if (!existsSync(filePath)) return undefined;
+  return {
+    id,
+    createdAt: Number(match[1]),
+    content: await readFile(filePath, "utf8"),
+  };
+}
+
+// Newest first.
+export async function listConfigSnapshots(
+  configFilePath: string
+): Promise<ConfigSnapshot[]> {
+  const ids = await listSnapshotIds(getConfigHistoryDirectory(configFilePath));
+  const snapshots = await Promise.all(
+    ids.reverse().map((id) => readConfigSnapshot(configFilePath, id))
+  );
+  return snapshots.filter(
+    (snapshot): snapshot is ConfigSnapshot => snapshot !== undefined
+  );
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+function canCompareEntries(before: unknown, after: unknown) {
+  if (before === undefined) return isContainer(after);
+  if (after === undefined) return isContainer(before);
+  return (
+    isContainer(before) &&
+    isContainer(after) &&
+    Array.isArray(before) === Array.isArray(after)
+  );
+}
+
+// Lists every leaf value that differs. Objects and arrays are compared entry by entry,
+// so a change inside a list names the entry instead of repeating the whole list.
+export function diffConfigs(
+  before: unknown,
+  after: unknown,
+  basePath = ""
+): ConfigChange[] {
+  if (canCompareEntries(before, after)) {
+    const left = (before ?? {}) as Record<string, unknown>;
+    const right = (after ?? {}) as Record<string, unknown>;
+    const keys = [...new Set([...Object.keys(left), ...Object.keys(right)])];
+    return keys.flatMap((key) =>
+      diffConfigs(left[key], right[key], basePath ? `${basePath}.${key}` : key)
+    );
+  }
+  if (before === after) return [];
+  if (before === undefined) return [{ path: basePath, kind: "added", after }];
+  if (after === undefined) {
+    return [{ path: basePath, kind: "removed", before }];
+  }
+  return [{ path: basePath, kind: "changed", before, after }];
+}
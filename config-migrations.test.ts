@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { migrateConfig } from "./config-migrations";
+import { CONFIG_FORMAT_VERSION, ConfigValidationError } from "./config-schema";
+
+describe("migrateConfig", () => {
+  test("upgrades an unversioned file step by step", () => {
+    expect(migrateConfig({ slackToken: "x", logKeepLines: 100 })).toEqual({
+      config: { slackToken: "x", version: CONFIG_FORMAT_VERSION },
+      fromVersion: 0,
+      applied: [
+        "Add the format version.",
+        "Drop logKeepLines; logs are rotated instead of trimmed.",
+      ],
+    });
+  });
+
+  test("leaves a current file alone", () => {
+    const config = { version: CONFIG_FORMAT_VERSION, slackToken: "x" };
+    expect(migrateConfig(config)).toEqual({
+      config,
+      fromVersion: CONFIG_FORMAT_VERSION,
+      applied: [],
+    });
+  });
+
+  test("passes anything that is not an object through", () => {
+    expect(migrateConfig([]).config).toEqual([]);
+  });
+
+  test("rejects versions it does not know", () => {
+    expect(() => migrateConfig({ version: CONFIG_FORMAT_VERSION + 1 })).toThrow(
+      ConfigValidationError
+    );
+    expect(() => migrateConfig({ version: "2" })).toThrow(
+      ConfigValidationError
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { CONFIG_FORMAT_VERSION, ConfigValidationError } from "./config-schema";
+
+type RawConfig = Record<string, unknown>;
+
+type ConfigMigration = {
+  version: number; // the format version this migration produces
+  description: string;
+  migrate: (config: RawConfig) => RawConfig;
+};
+
+// One entry per format version, in order. A migration only sees configs of the version
+// before it, so it never has to guess which shape it was given. When a key is renamed,
+// moved or removed in configSchema, bump CONFIG_FORMAT_VERSION and add a step here.
+const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 1,
+    description: "Add the format version.",
+    // Files written before versioning already have the version 1 shape.
+    migrate: (config) => config,
+  },
+  {
+    version: 2,
+    description: "Drop logKeepLines; logs are rotated instead of trimmed.",
+    migrate: ({ logKeepLines: _logKeepLines, ...config }) => config,
+  },
+];
+
+export type ConfigMigrationResult = {
+  config: unknown;
+  fromVersion: number;
+  applied: string[]; // descriptions of the migrations that ran
+};
+
+function isRawConfig(value: unknown): value is RawConfig {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Files without a version predate versioning.
+export function getConfigFormatVersion(config: RawConfig) {
+  const version = config.version ?? 0;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    throw new ConfigValidationError([
+      { path: "version", message: "Must be a whole number." },
+    ]);
+  }
+  if (version > CONFIG_FORMAT_VERSION) {
+    throw new ConfigValidationError([
+      {
+        path: "version",
+        message: `Config version ${version} is newer than this install supports (${CONFIG_FORMAT_VERSION}). Update spotify-status-on-slack.`,
+      },
+    ]);
+  }
+  return version;
+}
+
+// Upgrades a parsed config file to the current format. Anything that is not an object
+// is passed through for parseConfig to reject.
+export function migrateConfig(payload: unknown): ConfigMigrationResult {
+  if (!isRawConfig(payload)) {
+    return { config: payload, fromVersion: CONFIG_FORMAT_VERSION, applied: [] };
+  }
+  const fromVersion = getConfigFormatVersion(payload);
+  let config = payload;
+  const applied: string[] = [];
+  for (const migration of CONFIG_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    config = { ...migration.migrate(config), version: migration.version };
+    applied.push(migration.description);
+  }
+  return { config, fromVersion, applied };
+}
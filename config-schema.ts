@@ -1,17 +1,107 @@
 import { z, type ZodError } from "zod";
+import { validateStatusTemplate } from "./status-template";
+import { isContextUri, parseTitleFilter } from "./privacy-filter";
+import { DEFAULT_SLACK_API_BASE_URL } from "./slack-client";
+import type { SecretRef } from "./secrets";
+import type { LogFormat } from "./log-format";
+
+export type EmojiRule = {
+  emoji: string;
+  artist?: string;
+  titlePattern?: string;
+  uri?: string;
+  contextUri?: string; // needs spotifyWebApi
+  months?: number[];
+};
+
+export const WEEKDAYS = [
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+  "sun",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type TimeRange = {
+  start: string; // "HH:MM"
+  end: string; // "HH:MM", "24:00" allowed
+};
+
+export type StatusSchedule = {
+  timezone?: string;
+  weekly?: Partial<Record<Weekday, TimeRange[]>>;
+  holidays?: string[]; // "YYYY-MM-DD"
+  clearOwnedStatusWhenQuiet?: boolean;
+};
+
+export type PrivacyFilter = {
+  blockedArtists?: string[];
+  blockedTitles?: string[]; // substrings, or /regex/
+  blockedUris?: string[]; // playlist, album, artist and show URIs need spotifyWebApi
+  blockPodcasts?: boolean;
+  action?: "skip" | "substitute";
+  substituteText?: string;
+};
+
+// A Slack workspace the status is published to. Unset fields fall back to the
+// top-level values.
+export type SlackWorkspace = {
+  name: string;
+  slackToken: SecretRef;
+  statusTemplate?: string;
+  statusEmoji?: string;
+  statusEmojiUnicode?: string;
+  emojiRules?: EmojiRule[];
+  alwaysOverride?: boolean;
+  requireTwoEmptyReadsBeforeOverride?: boolean;
+};
+
+// Reads the playlist or album being played from the Spotify Web API, which the desktop
+// player does not report.
+export type SpotifyWebApiSettings = {
+  clientId: string;
+  clientSecret: SecretRef;
+  refreshToken: SecretRef;
+  apiBaseUrl?: string;
+  tokenUrl?: string;
+};
+
+// Name used for the workspace of a top-level slackToken.
+export const DEFAULT_WORKSPACE_NAME = "default";
+
+// Format of the config file; config-migrations.ts upgrades older files on read.
+export const CONFIG_FORMAT_VERSION = 2;
 
 export type Config = {
-  slackToken: string;
+  version?: typeof CONFIG_FORMAT_VERSION;
+  slackToken?: SecretRef;
+  workspaces?: SlackWorkspace[];
+  slackApiBaseUrl?: string;
+  slackApiTimeoutSeconds?: number;
+  playerSource?: "auto" | "applescript" | "mpris";
+  mprisPlayerName?: string;
+  spotifyWebApi?: SpotifyWebApiSettings;
   pollIntervalSeconds?: number;
+  clearStatusOnExit?: boolean;
+  statusTemplate?: string;
   statusEmoji?: string;
   statusEmojiUnicode?: string;
+  emojiRules?: EmojiRule[];
   statusTtlSeconds?: number;
+  schedule?: StatusSchedule;
+  privacy?: PrivacyFilter;
   alwaysOverride?: boolean;
   requireTwoEmptyReadsBeforeOverride?: boolean;
   emptyReadConfirmWindowSeconds?: number;
   cacheMaxAgeSeconds?: number;
   logMaxLines?: number;
-  logKeepLines?: number;
+  logMaxBytes?: number;
+  logMaxArchives?: number;
+  logFormat?: LogFormat;
   stdoutLogPath?: string;
   stderrLogPath?: string;
 };
@@ -22,44 +112,342 @@ const nonEmptyString = trimmedString.min(1, {
   message: "Must be a non-empty string.",
 });
 
+// The player sources report only the playing track; what it is played from is matched
+// separately, against contextUriString.
+const trackUriString = nonEmptyString.regex(/^spotify:(?:track|episode):\w+$/, {
+  message:
+    "Must be a track or episode URI, such as spotify:track:4uLU6hMCjMI75M1A2tKUQC.",
+});
+
+// What spotifyWebApi reports a track is played from.
+const contextUriString = nonEmptyString.regex(
+  /^spotify:(?:playlist|album|artist|show):\w+$/,
+  {
+    message:
+      "Must be a playlist, album, artist or show URI, such as spotify:playlist:37i9dQZF1DX0Yxoavh5qJV.",
+  }
+);
+
+// A track or episode matches itself; the other kinds match what it is played from.
+const blockedUriString = nonEmptyString.regex(
+  /^spotify:(?:track|episode|playlist|album|artist|show):\w+$/,
+  {
+    message:
+      "Must be a Spotify track, episode, playlist, album, artist or show URI.",
+  }
+);
+
 const optionalTrimmedString = z.preprocess((value) => {
   if (typeof value !== "string") return value;
   const trimmed = value.trim();
   return trimmed === "" ? undefined : trimmed;
 }, z.string().optional());
 
+const statusTemplateString = optionalTrimmedString.superRefine(
+  (value, context) => {
+    if (value === undefined) return;
+    const problem = validateStatusTemplate(value);
+    if (problem) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
+  }
+);
+
 const nonNegativeNumber = z.number().finite().min(0, {
   message: "Must be a non-negative number.",
 });
 
-export const configSchema: z.ZodType<Config> = z
+const positiveNumber = z.number().finite().positive({
+  message: "Must be a positive number.",
+});
+
+const regexPatternString = nonEmptyString.superRefine((value, context) => {
+  try {
+    new RegExp(value, "i");
+  } catch (error) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message:
+        error instanceof Error ? error.message : "Invalid regular expression.",
+    });
+  }
+});
+
+const emojiRuleSchema = z
+  .object({
+    emoji: nonEmptyString,
+    artist: nonEmptyString.optional(),
+    titlePattern: regexPatternString.optional(),
+    uri: trackUriString.optional(),
+    contextUri: contextUriString.optional(),
+    months: z.array(z.number().int().min(1).max(12)).min(1).optional(),
+  })
+  .strict()
+  .refine(
+    (rule) =>
+      rule.artist !== undefined ||
+      rule.titlePattern !== undefined ||
+      rule.uri !== undefined ||
+      rule.contextUri !== undefined ||
+      rule.months !== undefined,
+    {
+      message:
+        "Must set at least one of artist, titlePattern, uri, contextUri, months.",
+    }
+  );
+
+export function timeOfDayToMinutes(value: string) {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+const timeOfDayString = z
+  .string()
+  .regex(/^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/, {
+    message: 'Must be a 24-hour time like "09:00".',
+  });
+
+const timeRangeSchema = z
   .object({
-    slackToken: nonEmptyString,
+    start: timeOfDayString,
+    end: timeOfDayString,
+  })
+  .strict()
+  .refine(
+    (range) => timeOfDayToMinutes(range.start) < timeOfDayToMinutes(range.end),
+    { message: "Range start must be before its end." }
+  );
+
+const timezoneString = optionalTrimmedString.superRefine((value, context) => {
+  if (value === undefined) return;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+  } catch {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown time zone "${value}".`,
+    });
+  }
+});
+
+export const scheduleSchema = z
+  .object({
+    timezone: timezoneString,
+    weekly: z
+      .object(
+        Object.fromEntries(
+          WEEKDAYS.map((day) => [day, z.array(timeRangeSchema).optional()])
+        ) as Record<Weekday, z.ZodOptional<z.ZodArray<typeof timeRangeSchema>>>
+      )
+      .strict()
+      .optional(),
+    holidays: z
+      .array(
+        z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+          message: 'Must be a date like "2026-12-25".',
+        })
+      )
+      .optional(),
+    clearOwnedStatusWhenQuiet: z.boolean().optional(),
+  })
+  .strict();
+
+const titleFilterString = nonEmptyString.superRefine((value, context) => {
+  try {
+    parseTitleFilter(value);
+  } catch (error) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message:
+        error instanceof Error ? error.message : "Invalid regular expression.",
+    });
+  }
+});
+
+const privacyFilterSchema = z
+  .object({
+    blockedArtists: z.array(nonEmptyString).optional(),
+    blockedTitles: z.array(titleFilterString).optional(),
+    blockedUris: z.array(blockedUriString).optional(),
+    blockPodcasts: z.boolean().optional(),
+    action: z.enum(["skip", "substitute"]).optional(),
+    substituteText: optionalTrimmedString,
+  })
+  .strict();
+
+const secretRefSchema = z.union([
+  nonEmptyString,
+  z.object({ env: nonEmptyString }).strict(),
+  z.object({ file: nonEmptyString, key: nonEmptyString.optional() }).strict(),
+  z
+    .object({
+      keyring: z
+        .object({ service: nonEmptyString, account: nonEmptyString })
+        .strict(),
+    })
+    .strict(),
+]);
+
+const spotifyWebApiSchema = z
+  .object({
+    clientId: nonEmptyString,
+    clientSecret: secretRefSchema,
+    refreshToken: secretRefSchema,
+    apiBaseUrl: optionalTrimmedString.pipe(
+      z.string().url({ message: "Must be a URL." }).optional()
+    ),
+    tokenUrl: optionalTrimmedString.pipe(
+      z.string().url({ message: "Must be a URL." }).optional()
+    ),
+  })
+  .strict();
+
+const workspaceSchema = z
+  .object({
+    name: nonEmptyString,
+    slackToken: secretRefSchema,
+    statusTemplate: statusTemplateString,
+    statusEmoji: optionalTrimmedString,
+    statusEmojiUnicode: optionalTrimmedString,
+    emojiRules: z.array(emojiRuleSchema).optional(),
+    alwaysOverride: z.boolean().optional(),
+    requireTwoEmptyReadsBeforeOverride: z.boolean().optional(),
+  })
+  .strict();
+
+// The config's fields on their own; configSchema adds the checks across fields.
+export const configObjectSchema = z
+  .object({
+    version: z.literal(CONFIG_FORMAT_VERSION).optional(),
+    slackToken: z.preprocess(
+      (value) =>
+        typeof value === "string" && value.trim() === "" ? undefined : value,
+      secretRefSchema.optional()
+    ),
+    workspaces: z
+      .array(workspaceSchema)
+      .min(1, { message: "Must list at least one workspace." })
+      .optional(),
+    slackApiBaseUrl: optionalTrimmedString.pipe(
+      z.string().url({ message: "Must be a URL." }).optional()
+    ),
+    slackApiTimeoutSeconds: positiveNumber.optional(),
+    playerSource: z.enum(["auto", "applescript", "mpris"]).optional(),
+    mprisPlayerName: optionalTrimmedString,
+    spotifyWebApi: spotifyWebApiSchema.optional(),
     pollIntervalSeconds: nonNegativeNumber.optional(),
+    clearStatusOnExit: z.boolean().optional(),
+    statusTemplate: statusTemplateString,
     statusEmoji: optionalTrimmedString,
     statusEmojiUnicode: optionalTrimmedString,
+    emojiRules: z.array(emojiRuleSchema).optional(),
     statusTtlSeconds: nonNegativeNumber.optional(),
+    schedule: scheduleSchema.optional(),
+    privacy: privacyFilterSchema.optional(),
     alwaysOverride: z.boolean().optional(),
     requireTwoEmptyReadsBeforeOverride: z.boolean().optional(),
     emptyReadConfirmWindowSeconds: nonNegativeNumber.optional(),
     cacheMaxAgeSeconds: nonNegativeNumber.optional(),
     logMaxLines: nonNegativeNumber.optional(),
-    logKeepLines: nonNegativeNumber.optional(),
+    logMaxBytes: nonNegativeNumber.optional(),
+    logMaxArchives: nonNegativeNumber
+      .int({ message: "Must be a whole number." })
+      .optional(),
+    logFormat: z.enum(["text", "jsonl"]).optional(),
     stdoutLogPath: optionalTrimmedString,
     stderrLogPath: optionalTrimmedString,
   })
   .strict();
 
+export const configSchema: z.ZodType<Config> = configObjectSchema.superRefine(
+  (config, context) => {
+    // Without the Web API the playing context is never known, so the rule could never match.
+    if (config.spotifyWebApi === undefined) {
+      const ruleLists = [
+        { path: ["emojiRules"], rules: config.emojiRules },
+        ...(config.workspaces ?? []).map((workspace, index) => ({
+          path: ["workspaces", index, "emojiRules"],
+          rules: workspace.emojiRules,
+        })),
+      ];
+      for (const { path, rules } of ruleLists) {
+        rules?.forEach((rule, index) => {
+          if (rule.contextUri === undefined) return;
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [...path, index, "contextUri"],
+            message: "Set spotifyWebApi to match on what is being played from.",
+          });
+        });
+      }
+      config.privacy?.blockedUris?.forEach((uri, index) => {
+        if (!isContextUri(uri)) return;
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["privacy", "blockedUris", index],
+          message: "Set spotifyWebApi to block what is being played from.",
+        });
+      });
+    }
+    if (config.workspaces === undefined) {
+      if (config.slackToken === undefined) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["slackToken"],
+          message: "Must be a non-empty string.",
+        });
+      }
+      return;
+    }
+    if (config.slackToken !== undefined) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["slackToken"],
+        message: "Set the token on each workspace instead.",
+      });
+    }
+    const seenNames = new Set<string>();
+    config.workspaces.forEach((workspace, index) => {
+      const key = workspace.name.toLowerCase();
+      if (seenNames.has(key)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["workspaces", index, "name"],
+          message: `Duplicate workspace name "${workspace.name}".`,
+        });
+      }
+      seenNames.add(key);
+    });
+  }
+);
+
+export function getSlackWorkspaces(config: Config): SlackWorkspace[] {
+  if (config.workspaces) return config.workspaces;
+  return [
+    { name: DEFAULT_WORKSPACE_NAME, slackToken: config.slackToken ?? "" },
+  ];
+}
+
 export const DEFAULT_CONFIG = {
+  slackApiBaseUrl: DEFAULT_SLACK_API_BASE_URL,
+  slackApiTimeoutSeconds: 10,
+  playerSource: "auto",
+  mprisPlayerName: "spotify",
+  pollIntervalSeconds: 30,
+  clearStatusOnExit: false,
+  statusTemplate: "{artist} - {title}",
   statusEmoji: ":headphones:",
   statusEmojiUnicode: "\u{1F3A7}",
+  emojiRules: [] as EmojiRule[],
   statusTtlSeconds: 120,
   alwaysOverride: false,
   requireTwoEmptyReadsBeforeOverride: true,
   emptyReadConfirmWindowSeconds: 600,
   cacheMaxAgeSeconds: 600,
   logMaxLines: 5000,
-  logKeepLines: 3000,
+  logMaxBytes: 5 * 1024 * 1024,
+  logMaxArchives: 5,
+  logFormat: "text",
   stdoutLogPath: "./spotify-status.log",
   stderrLogPath: "./spotify-status.error.log",
 } satisfies Partial<Config>;
@@ -67,7 +455,7 @@ export const DEFAULT_CONFIG = {
 type DefaultedKeys = keyof typeof DEFAULT_CONFIG;
 
 export type ConfigDraft = Partial<Config> & {
-  slackToken?: string;
+  slackToken?: SecretRef;
 };
 
 export type ConfigWithDefaults = Config & Required<Pick<Config, DefaultedKeys>>;
@@ -75,12 +463,26 @@ export type ConfigWithDefaults = Config & Required<Pick<Config, DefaultedKeys>>;
 export function applyDefaults(config: ConfigDraft): ConfigWithDefaults {
   return {
     slackToken: config.slackToken ?? "",
-    pollIntervalSeconds: config.pollIntervalSeconds,
+    workspaces: config.workspaces,
+    slackApiBaseUrl: config.slackApiBaseUrl ?? DEFAULT_CONFIG.slackApiBaseUrl,
+    slackApiTimeoutSeconds:
+      config.slackApiTimeoutSeconds ?? DEFAULT_CONFIG.slackApiTimeoutSeconds,
+    playerSource: config.playerSource ?? DEFAULT_CONFIG.playerSource,
+    mprisPlayerName: config.mprisPlayerName ?? DEFAULT_CONFIG.mprisPlayerName,
+    spotifyWebApi: config.spotifyWebApi,
+    pollIntervalSeconds:
+      config.pollIntervalSeconds ?? DEFAULT_CONFIG.pollIntervalSeconds,
+    clearStatusOnExit:
+      config.clearStatusOnExit ?? DEFAULT_CONFIG.clearStatusOnExit,
+    statusTemplate: config.statusTemplate ?? DEFAULT_CONFIG.statusTemplate,
     statusEmoji: config.statusEmoji ?? DEFAULT_CONFIG.statusEmoji,
     statusEmojiUnicode:
       config.statusEmojiUnicode ?? DEFAULT_CONFIG.statusEmojiUnicode,
+    emojiRules: config.emojiRules ?? DEFAULT_CONFIG.emojiRules,
     statusTtlSeconds:
       config.statusTtlSeconds ?? DEFAULT_CONFIG.statusTtlSeconds,
+    schedule: config.schedule,
+    privacy: config.privacy,
     alwaysOverride: config.alwaysOverride ?? DEFAULT_CONFIG.alwaysOverride,
     requireTwoEmptyReadsBeforeOverride:
       config.requireTwoEmptyReadsBeforeOverride ??
@@ -91,25 +493,44 @@ export function applyDefaults(config: ConfigDraft): ConfigWithDefaults {
     cacheMaxAgeSeconds:
       config.cacheMaxAgeSeconds ?? DEFAULT_CONFIG.cacheMaxAgeSeconds,
     logMaxLines: config.logMaxLines ?? DEFAULT_CONFIG.logMaxLines,
-    logKeepLines: config.logKeepLines ?? DEFAULT_CONFIG.logKeepLines,
+    logMaxBytes: config.logMaxBytes ?? DEFAULT_CONFIG.logMaxBytes,
+    logMaxArchives: config.logMaxArchives ?? DEFAULT_CONFIG.logMaxArchives,
+    logFormat: config.logFormat ?? DEFAULT_CONFIG.logFormat,
     stdoutLogPath: config.stdoutLogPath ?? DEFAULT_CONFIG.stdoutLogPath,
     stderrLogPath: config.stderrLogPath ?? DEFAULT_CONFIG.stderrLogPath,
   };
 }
 
-function formatZodError(error: ZodError): string {
-  return error.errors
-    .map((issue) => {
-      const path = issue.path.length > 0 ? issue.path.join(".") : "config";
-      return `${path}: ${issue.message}`;
-    })
-    .join("; ");
+export type ConfigIssue = {
+  path: string; // dotted, e.g. "emojiRules.0.emoji"; "" for the whole config
+  message: string;
+};
+
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(
+      issues
+        .map((issue) => `${issue.path || "config"}: ${issue.message}`)
+        .join("; ")
+    );
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+export function getConfigIssues(error: ZodError): ConfigIssue[] {
+  return error.errors.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
 }
 
 export function parseConfig(payload: unknown): Config {
   const parsed = configSchema.safeParse(payload);
   if (!parsed.success) {
-    throw new Error(formatZodError(parsed.error));
+    throw new ConfigValidationError(getConfigIssues(parsed.error));
   }
   return parsed.data;
 }
@@ -1,8 +1,20 @@
 import os from "node:os";
 import path from "node:path";
+import { createHash } from "node:crypto";
 import { existsSync } from "node:fs";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
-import { type Config, parseConfig } from "./config-schema";
+import { mkdir, readFile } from "node:fs/promises";
+import {
+  CONFIG_FORMAT_VERSION,
+  type Config,
+  parseConfig,
+} from "./config-schema";
+import { saveConfigSnapshot } from "./config-history";
+import { migrateConfig } from "./config-migrations";
+import {
+  FileLockTimeoutError,
+  withFileLock,
+  writeFileAtomic,
+} from "./file-lock";
 
 export function getConfigSearchPaths(repositoryDirectory: string) {
   const homeDirectory = os.homedir();
@@ -29,13 +41,104 @@ export function resolveConfigPath(
   return searchPaths[0];
 }
 
-export async function readConfigFile(filePath: string): Promise<Config> {
+// Identifies the file's contents, so a writer can tell whether it changed since it was read.
+export function getConfigVersion(content: string) {
+  return createHash("sha256").update(content).digest("hex").slice(0, 16);
+}
+
+export async function readConfigVersion(filePath: string) {
+  if (!existsSync(filePath)) return null;
+  return getConfigVersion(await readFile(filePath, "utf8"));
+}
+
+export type ConfigMigrationInfo = {
+  fromVersion: number;
+  applied: string[];
+  backupPath?: string; // unset when the upgraded file could not be written yet
+};
+
+function serializeConfig(config: object) {
+  // The format version goes first, where it is easy to spot.
+  return JSON.stringify({ version: CONFIG_FORMAT_VERSION, ...config }, null, 2);
+}
+
+function getConfigBackupPath(filePath: string, fromVersion: number) {
+  return `${filePath}.v${fromVersion}.bak`;
+}
+
+// Writes the upgraded config back, keeping the original next to it. Skipped when the
+// lock is taken (by another writer, or by the caller itself): the file changed or is
+// about to, and the next read migrates again.
+async function saveMigratedConfig(
+  filePath: string,
+  originalContent: string,
+  content: string,
+  fromVersion: number
+) {
+  try {
+    return await withFileLock(
+      filePath,
+      async () => {
+        if ((await readFile(filePath, "utf8")) !== originalContent) {
+          return undefined;
+        }
+        const backupPath = getConfigBackupPath(filePath, fromVersion);
+        if (!existsSync(backupPath)) {
+          await writeFileAtomic(backupPath, originalContent, 0o600);
+        }
+        await writeFileAtomic(filePath, content, 0o600);
+        return backupPath;
+      },
+      { timeoutMs: 0 }
+    );
+  } catch (error) {
+    if (error instanceof FileLockTimeoutError) return undefined;
+    throw error;
+  }
+}
+
+export async function readConfigFileWithVersion(filePath: string): Promise<{
+  config: Config;
+  version: string;
+  migration?: ConfigMigrationInfo;
+}> {
   const rawConfigContent = await readFile(filePath, "utf8");
-  return parseConfig(JSON.parse(rawConfigContent));
+  const migrated = migrateConfig(JSON.parse(rawConfigContent));
+  const config = parseConfig(migrated.config);
+  if (migrated.applied.length === 0) {
+    return { config, version: getConfigVersion(rawConfigContent) };
+  }
+
+  const content = serializeConfig(migrated.config as object);
+  const backupPath = await saveMigratedConfig(
+    filePath,
+    rawConfigContent,
+    content,
+    migrated.fromVersion
+  );
+  return {
+    config,
+    version: getConfigVersion(backupPath ? content : rawConfigContent),
+    migration: {
+      fromVersion: migrated.fromVersion,
+      applied: migrated.applied,
+      backupPath,
+    },
+  };
+}
+
+export async function readConfigFile(filePath: string): Promise<Config> {
+  return (await readConfigFileWithVersion(filePath)).config;
 }
 
+// The version being replaced is kept in the config history first. Callers that read,
+// change and write the config hold withFileLock(filePath) around all three.
 export async function writeConfigFile(filePath: string, config: Config) {
   const directory = path.dirname(filePath);
   await mkdir(directory, { recursive: true });
-  await writeFile(filePath, JSON.stringify(config, null, 2), "utf8");
+  const content = serializeConfig(config);
+  await saveConfigSnapshot(filePath, content);
+  // New config files may hold tokens, so they start out private.
+  await writeFileAtomic(filePath, content, 0o600);
+  return getConfigVersion(content);
 }
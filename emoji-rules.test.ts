@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { getScriptStatusEmojis, selectStatusEmoji } from "./emoji-rules";
+import type { TrackInfo } from "./player-source";
+
+const track: TrackInfo = {
+  artist: "Queen, David Bowie",
+  title: "Under Pressure - Remastered 2011",
+  album: "Hot Space",
+  durationSeconds: 248,
+  positionSeconds: 10,
+  uri: "spotify:track:2fuCquhmrzHpu5xcA1ci9x",
+  playingSince: 1_792_000_000,
+};
+
+describe("selectStatusEmoji", () => {
+  test("falls back when no rule matches", () => {
+    expect(
+      selectStatusEmoji([{ emoji: ":guitar:", artist: "Muse" }], track, ":x:")
+    ).toEqual({ emoji: ":x:" });
+  });
+
+  test("matches one of several artists, ignoring case", () => {
+    expect(
+      selectStatusEmoji(
+        [{ emoji: ":guitar:", artist: "david bowie" }],
+        track,
+        ":x:"
+      )
+    ).toEqual({ emoji: ":guitar:", ruleIndex: 0 });
+  });
+
+  test("uses the first rule whose conditions all match", () => {
+    const rules = [
+      { emoji: ":one:", artist: "Queen", titlePattern: "^Bohemian" },
+      { emoji: ":two:", titlePattern: "remaster" },
+      { emoji: ":three:", artist: "Queen" },
+    ];
+    expect(selectStatusEmoji(rules, track, ":x:")).toEqual({
+      emoji: ":two:",
+      ruleIndex: 1,
+    });
+  });
+
+  test("matches the track URI and month", () => {
+    const rules = [{ emoji: ":snowflake:", uri: track.uri, months: [12] }];
+    expect(
+      selectStatusEmoji(rules, track, ":x:", new Date(2026, 11, 24)).emoji
+    ).toBe(":snowflake:");
+    expect(
+      selectStatusEmoji(rules, track, ":x:", new Date(2026, 10, 24)).emoji
+    ).toBe(":x:");
+  });
+
+  test("matches what the track is played from only when it is known", () => {
+    const rules = [
+      {
+        emoji: ":christmas_tree:",
+        contextUri: "spotify:playlist:37i9dQZF1DX0Yxoavh5qJV",
+      },
+    ];
+    expect(
+      selectStatusEmoji(
+        rules,
+        { ...track, contextUri: "spotify:playlist:37i9dQZF1DX0Yxoavh5qJV" },
+        ":x:"
+      ).emoji
+    ).toBe(":christmas_tree:");
+    expect(selectStatusEmoji(rules, track, ":x:").emoji).toBe(":x:");
+    expect(
+      selectStatusEmoji(rules, { ...track, contextUri: null }, ":x:").emoji
+    ).toBe(":x:");
+  });
+});
+
+describe("getScriptStatusEmojis", () => {
+  test("includes every rule emoji", () => {
+    expect(
+      getScriptStatusEmojis({
+        statusEmoji: ":musical_note:",
+        statusEmojiUnicode: "🎵",
+        emojiRules: [{ emoji: ":guitar:" }],
+      })
+    ).toEqual(new Set([":musical_note:", "🎵", ":guitar:"]));
+  });
+});
@@ -0,0 +1,63 @@
+import type { EmojiRule } from "./config-schema";
+import type { TrackInfo } from "./player-source";
+
+function splitArtists(artist: string) {
+  return artist
+    .split(/,\s*|\s+&\s+/)
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function matchesRule(rule: EmojiRule, track: TrackInfo, now: Date) {
+  if (rule.artist !== undefined) {
+    const expected = rule.artist.trim().toLowerCase();
+    const artists = splitArtists(track.artist);
+    if (
+      track.artist.trim().toLowerCase() !== expected &&
+      !artists.includes(expected)
+    ) {
+      return false;
+    }
+  }
+  if (
+    rule.titlePattern !== undefined &&
+    !new RegExp(rule.titlePattern, "i").test(track.title)
+  ) {
+    return false;
+  }
+  if (rule.uri !== undefined && rule.uri !== track.uri) {
+    return false;
+  }
+  if (rule.contextUri !== undefined && rule.contextUri !== track.contextUri) {
+    return false;
+  }
+  if (rule.months !== undefined && !rule.months.includes(now.getMonth() + 1)) {
+    return false;
+  }
+  return true;
+}
+
+// Rules are evaluated in order; the first one whose conditions all match wins.
+export function selectStatusEmoji(
+  rules: EmojiRule[],
+  track: TrackInfo,
+  fallbackEmoji: string,
+  now = new Date()
+): { emoji: string; ruleIndex?: number } {
+  const ruleIndex = rules.findIndex((rule) => matchesRule(rule, track, now));
+  if (ruleIndex === -1) return { emoji: fallbackEmoji };
+  return { emoji: rules[ruleIndex].emoji, ruleIndex };
+}
+
+// Every emoji the script may put on a status, used to recognise statuses it set.
+export function getScriptStatusEmojis(config: {
+  statusEmoji: string;
+  statusEmojiUnicode: string;
+  emojiRules: EmojiRule[];
+}) {
+  return new Set([
+    config.statusEmoji,
+    config.statusEmojiUnicode,
+    ...config.emojiRules.map((rule) => rule.emoji),
+  ]);
+}
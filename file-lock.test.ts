@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { FileLockTimeoutError, withFileLock } from "./file-lock";
+
+let directory: string;
+let filePath: string;
+let lockPath: string;
+
+// Far above any pid in use, so the process is taken to be gone.
+const GONE_PID = 2 ** 30;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "file-lock-"));
+  filePath = path.join(directory, "config.json");
+  lockPath = `${filePath}.lock`;
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("withFileLock", () => {
+  test("runs one action at a time and removes the lock", async () => {
+    let inside = 0;
+    let overlapped = false;
+    const action = async () => {
+      inside += 1;
+      overlapped ||= inside > 1;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      inside -= 1;
+    };
+    await Promise.all([
+      withFileLock(filePath, action, { retryMs: 5 }),
+      withFileLock(filePath, action, { retryMs: 5 }),
+      withFileLock(filePath, action, { retryMs: 5 }),
+    ]);
+    expect(overlapped).toBe(false);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  test("times out while a running process holds the lock", async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({ pid: process.pid, acquiredAt: Date.now(), token: "x" })
+    );
+    const error = await withFileLock(filePath, async () => {}, {
+      timeoutMs: 30,
+      retryMs: 5,
+    }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(FileLockTimeoutError);
+  });
+
+  test("lets one of several waiters take over a stale lock", async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({ pid: GONE_PID, acquiredAt: Date.now(), token: "x" })
+    );
+    let inside = 0;
+    let overlapped = false;
+    const action = async () => {
+      inside += 1;
+      overlapped ||= inside > 1;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      inside -= 1;
+    };
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        withFileLock(filePath, action, { retryMs: 1 })
+      )
+    );
+    expect(overlapped).toBe(false);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  test("leaves a lock taken over by another process in place", async () => {
+    const otherLock = JSON.stringify({
+      pid: process.pid,
+      acquiredAt: Date.now(),
+      token: "other",
+    });
+    await withFileLock(filePath, async () => {
+      // Judged stale and taken over while the action was still running.
+      await rm(lockPath);
+      await writeFile(lockPath, otherLock);
+    });
+    expect(await readFile(lockPath, "utf8")).toBe(otherLock);
+    expect(await readdir(directory)).toEqual(["config.json.lock"]);
+  });
+});
@@ -0,0 +1,205 @@
+import path from "node:path";
+import { randomBytes, randomUUID } from "node:crypto";
+import {
+  chmod,
+  link,
+  mkdir,
+  open,
+  realpath,
+  rename,
+  rm,
+  stat,
+} from "node:fs/promises";
+
+export type FileLockOptions = {
+  timeoutMs?: number; // give up waiting for the lock after this long
+  staleMs?: number; // a lock older than this is taken over
+  retryMs?: number;
+};
+
+export class FileLockTimeoutError extends Error {
+  readonly lockPath: string;
+
+  constructor(lockPath: string) {
+    super(
+      `Timed out waiting for ${lockPath}; another process is writing. Delete the file if no other process is running.`
+    );
+    this.name = "FileLockTimeoutError";
+    this.lockPath = lockPath;
+  }
+}
+
+type LockOwner = {
+  pid: number;
+  acquiredAt: number; // epoch milliseconds
+  token: string; // tells apart two locks taken by the same process
+};
+
+// A lock file as read at one point, to check later that it is still the same lock.
+type LockSnapshot = {
+  ino: number;
+  mtimeMs: number;
+  content: string;
+};
+
+function hasErrorCode(error: unknown, code: string) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    error.code === code
+  );
+}
+
+function isProcessRunning(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user.
+    return !hasErrorCode(error, "ESRCH");
+  }
+}
+
+async function readLock(lockPath: string): Promise<LockSnapshot> {
+  const handle = await open(lockPath, "r");
+  try {
+    const { ino, mtimeMs } = await handle.stat();
+    return { ino, mtimeMs, content: await handle.readFile("utf8") };
+  } finally {
+    await handle.close();
+  }
+}
+
+// Removes the lock only if it is still `expected`. It is renamed aside before it is
+// checked, so a lock another process took in the meantime is put back, never deleted.
+async function removeLockIfUnchanged(lockPath: string, expected: LockSnapshot) {
+  const movedPath = `${lockPath}.${randomBytes(4).toString("hex")}.removing`;
+  try {
+    await rename(lockPath, movedPath);
+  } catch (error) {
+    if (hasErrorCode(error, "ENOENT")) return; // released in the meantime
+    throw error;
+  }
+  try {
+    const moved = await readLock(movedPath);
+    if (moved.ino === expected.ino && moved.content === expected.content)
+      return;
+    // Unless yet another process has taken the lock since.
+    await link(movedPath, lockPath).catch((error) => {
+      if (!hasErrorCode(error, "EEXIST")) throw error;
+    });
+  } finally {
+    await rm(movedPath, { force: true });
+  }
+}
+
+// A lock left behind by a crashed process would otherwise block every later write.
+async function removeStaleLock(lockPath: string, staleMs: number) {
+  let lock: LockSnapshot;
+  try {
+    lock = await readLock(lockPath);
+  } catch (error) {
+    if (hasErrorCode(error, "ENOENT")) return true; // released in the meantime
+    throw error;
+  }
+  let owner: Partial<LockOwner> = {};
+  try {
+    owner = JSON.parse(lock.content) as Partial<LockOwner>;
+  } catch {
+    // Half-written; judged by age alone.
+  }
+  const acquiredAt =
+    typeof owner.acquiredAt === "number" ? owner.acquiredAt : lock.mtimeMs;
+  const isOwnerGone =
+    typeof owner.pid === "number" && !isProcessRunning(owner.pid);
+  if (!isOwnerGone && Date.now() - acquiredAt < staleMs) return false;
+  // Another waiter may have judged it stale too and taken the lock already.
+  await removeLockIfUnchanged(lockPath, lock);
+  return true;
+}
+
+// Runs `action` while holding `<filePath>.lock`. The lock is advisory: it only keeps out
+// processes that take it too (the updater and the Config UI server).
+export async function withFileLock<T>(
+  filePath: string,
+  action: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const staleMs = options.staleMs ?? 10 * 60 * 1000;
+  const retryMs = options.retryMs ?? 50;
+  const deadline = Date.now() + timeoutMs;
+  await mkdir(path.dirname(lockPath), { recursive: true });
+
+  let ownLock: LockSnapshot;
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx", 0o600);
+      try {
+        const owner: LockOwner = {
+          pid: process.pid,
+          acquiredAt: Date.now(),
+          token: randomUUID(),
+        };
+        const content = JSON.stringify(owner);
+        await handle.writeFile(content, "utf8");
+        const { ino, mtimeMs } = await handle.stat();
+        ownLock = { ino, mtimeMs, content };
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if (!hasErrorCode(error, "EEXIST")) throw error;
+      if (await removeStaleLock(lockPath, staleMs)) continue;
+      if (Date.now() >= deadline) throw new FileLockTimeoutError(lockPath);
+      await new Promise((resolve) => setTimeout(resolve, retryMs));
+    }
+  }
+
+  try {
+    return await action();
+  } finally {
+    // Taken over if the action outlasted staleMs; the new owner's lock is left alone.
+    await removeLockIfUnchanged(lockPath, ownLock);
+  }
+}
+
+// Writes to a temporary file next to the target and renames it into place, so readers
+// see either the old or the new contents, never a partial file.
+export async function writeFileAtomic(
+  filePath: string,
+  content: string,
+  mode = 0o644
+) {
+  // Replace the file a symlink points to, not the symlink.
+  const targetPath = await realpath(filePath).catch(() => filePath);
+  // Keep the permissions of the file being replaced, e.g. a config made private.
+  const targetMode = await stat(targetPath).then(
+    (stats) => stats.mode & 0o777,
+    () => mode
+  );
+  const temporaryPath = path.join(
+    path.dirname(targetPath),
+    `.${path.basename(targetPath)}.${process.pid}.${randomBytes(4).toString(
+      "hex"
+    )}.tmp`
+  );
+  try {
+    const handle = await open(temporaryPath, "wx", targetMode);
+    try {
+      await handle.writeFile(content, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    // The mode given to open() is reduced by the umask.
+    await chmod(temporaryPath, targetMode);
+    await rename(temporaryPath, targetPath);
+  } catch (error) {
+    await rm(temporaryPath, { force: true });
+    throw error;
+  }
+}
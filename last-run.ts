@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+// What the updater saw and decided on its most recent run, shown on the Config UI
+// dashboard. The browser app parses it too, so this module must not use node modules.
+
+const slackStatusSchema = z
+  .object({
+    text: z.string(),
+    emoji: z.string(),
+    expiration: z.number(), // epoch seconds; 0 when it does not expire
+  })
+  .strict();
+
+export const lastRunWorkspaceSchema = z
+  .object({
+    name: z.string(),
+    // As read from Slack before the run changed anything.
+    slackStatus: slackStatusSchema.optional(),
+    // Set when the run wrote a status (an empty one when it cleared it).
+    statusAfter: slackStatusSchema.optional(),
+    ownership: z
+      .object({
+        owned: z.boolean(),
+        reason: z.string(),
+      })
+      .strict()
+      .optional(),
+    safeToOverride: z.boolean().optional(),
+    consecutiveEmptyReads: z.number().int().min(0).optional(),
+    outcome: z.enum(["updated", "restored", "cleared", "skipped", "failed"]),
+    message: z.string(),
+  })
+  .strict();
+
+export type LastRunWorkspace = z.infer<typeof lastRunWorkspaceSchema>;
+
+export const lastRunSchema = z
+  .object({
+    runId: z.string().optional(), // matches the runId of its lines in a jsonl log
+    startedAt: z.number(), // epoch seconds
+    finishedAt: z.number(),
+    pid: z.number().int(),
+    player: z
+      .object({
+        source: z.enum(["applescript", "mpris"]),
+        running: z.boolean(),
+        state: z.enum(["playing", "paused", "stopped", "unknown"]).optional(),
+        // Left out when the privacy filter hides the track.
+        track: z
+          .object({
+            artist: z.string(),
+            title: z.string(),
+            album: z.string(),
+            uri: z.string(),
+            contextUri: z.string().optional(), // from the Spotify Web API
+          })
+          .strict()
+          .optional(),
+        hidden: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    workspaces: z.array(lastRunWorkspaceSchema),
+    // Set when the run stopped before every workspace was handled.
+    error: z.string().optional(),
+  })
+  .strict();
+
+export type LastRun = z.infer<typeof lastRunSchema>;
+
+export function parseLastRun(payload: unknown): LastRun {
+  const parsed = lastRunSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error("Last run record is corrupted or invalid.");
+  }
+  return parsed.data;
+}
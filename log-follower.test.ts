@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  appendFile,
+  mkdtemp,
+  rename,
+  rm,
+  truncate,
+  writeFile,
+} from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { createLogFollower } from "./log-follower";
+
+let directory: string;
+let logPath: string;
+
+function line(second: number, message: string) {
+  return `2026-10-19T10:00:${String(second).padStart(
+    2,
+    "0"
+  )}.000Z INFO ${message}\n`;
+}
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "log-follower-"));
+  logPath = path.join(directory, "test.log");
+  await writeFile(logPath, line(0, "first") + line(1, "second"));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("createLogFollower", () => {
+  test("starts at the end and returns whole appended lines", async () => {
+    const follower = createLogFollower(logPath);
+    expect(await follower.poll()).toEqual({
+      kind: "reset",
+      reason: "start",
+      end: (line(0, "first") + line(1, "second")).length,
+    });
+    expect(await follower.poll()).toBeUndefined();
+
+    await appendFile(logPath, `${line(2, "third")}2026-10-19T10:00:03`);
+    expect(await follower.poll()).toEqual({
+      kind: "append",
+      lines: [line(2, "third").trimEnd()],
+    });
+    await appendFile(logPath, ".000Z INFO fourth\n");
+    expect(await follower.poll()).toEqual({
+      kind: "append",
+      lines: ["2026-10-19T10:00:03.000Z INFO fourth"],
+    });
+  });
+
+  test("notices a log emptied in place", async () => {
+    const follower = createLogFollower(logPath);
+    await follower.poll();
+    await truncate(logPath, 0);
+    expect(await follower.poll()).toEqual({
+      kind: "reset",
+      reason: "cleared",
+      end: 0,
+    });
+  });
+
+  test("notices a log rotated and refilled past the read position", async () => {
+    const follower = createLogFollower(logPath);
+    await follower.poll();
+    // Same line lengths, so a newline lands exactly where the follower stopped.
+    const refilled = line(5, "other") + line(6, "sixth!") + line(7, "after");
+    await truncate(logPath, 0);
+    await appendFile(logPath, refilled);
+    expect(await follower.poll()).toEqual({
+      kind: "reset",
+      reason: "truncated",
+      end: refilled.length,
+    });
+  });
+
+  test("notices a log replaced by another file", async () => {
+    const follower = createLogFollower(logPath);
+    await follower.poll();
+    const replacementPath = path.join(directory, "replacement.log");
+    await writeFile(
+      replacementPath,
+      line(0, "first") + line(1, "second") + line(2, "third")
+    );
+    await rename(replacementPath, logPath);
+    expect(await follower.poll()).toMatchObject({
+      kind: "reset",
+      reason: "truncated",
+    });
+  });
+
+  test("follows a log created again from its first line", async () => {
+    const follower = createLogFollower(logPath);
+    await follower.poll();
+    await rm(logPath);
+    expect(await follower.poll()).toEqual({
+      kind: "reset",
+      reason: "missing",
+      end: 0,
+    });
+    await writeFile(logPath, line(8, "new"));
+    expect(await follower.poll()).toEqual({
+      kind: "append",
+      lines: [line(8, "new").trimEnd()],
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { existsSync } from "node:fs";
+import { open, stat } from "node:fs/promises";
+
+export type LogFollowerUpdate =
+  | { kind: "append"; lines: string[] }
+  // The file was rewritten from scratch; the lines before byte `end` are what it holds
+  // now, and are left to the caller to read. `reason` is "start" for the first read.
+  | {
+      kind: "reset";
+      reason: "start" | "truncated" | "cleared" | "missing";
+      end: number;
+    };
+
+export type LogFollower = {
+  poll: () => Promise<LogFollowerUpdate | undefined>;
+};
+
+const NEWLINE = 0x0a;
+const CHUNK_SIZE = 64 * 1024;
+// Kept from just before the read position; every updater line starts with a timestamp,
+// so a log refilled past the position does not hold the same bytes there.
+const FINGERPRINT_SIZE = 64;
+
+async function readBytes(filePath: string, start: number, end: number) {
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(end - start);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function splitLines(bytes: Buffer) {
+  if (bytes.length === 0) return [];
+  const content = bytes.toString("utf8").replace(/\r\n/g, "\n");
+  return content.slice(0, -1).split("\n");
+}
+
+// Follows a log file like `tail -F` by polling its size. Only whole lines are returned;
+// a line still being written is picked up once its newline arrives. The updater rotates
+// logs in place and DELETE /api/logs empties them, so a file that shrank, was replaced,
+// or whose bytes before the read position changed is followed again from its end.
+export function createLogFollower(filePath: string): LogFollower {
+  let offset = 0; // just past the last newline returned
+  let fingerprint = Buffer.alloc(0); // the bytes just before `offset`
+  let inode: number | undefined;
+  let state: "new" | "missing" | "following" = "new";
+
+  function moveTo(nextOffset: number, bytesBefore: Buffer) {
+    offset = nextOffset;
+    fingerprint = Buffer.from(
+      bytesBefore.subarray(Math.max(0, bytesBefore.length - FINGERPRINT_SIZE))
+    );
+  }
+
+  async function readWholeLines(start: number, size: number) {
+    const bytes = await readBytes(filePath, start, size);
+    const end = bytes.lastIndexOf(NEWLINE) + 1;
+    moveTo(start + end, Buffer.concat([fingerprint, bytes.subarray(0, end)]));
+    return splitLines(bytes.subarray(0, end));
+  }
+
+  // Moves past the last whole line, reading backwards from the end.
+  async function skipToEnd(size: number) {
+    let end = size;
+    moveTo(0, Buffer.alloc(0));
+    while (end > 0) {
+      const start = Math.max(0, end - CHUNK_SIZE);
+      const bytes = await readBytes(filePath, start, end);
+      const index = bytes.lastIndexOf(NEWLINE);
+      if (index !== -1) {
+        moveTo(start + index + 1, bytes.subarray(0, index + 1));
+        break;
+      }
+      end = start;
+    }
+    return offset;
+  }
+
+  async function wasRewritten(size: number, currentInode: number) {
+    if (currentInode !== inode || size < offset) return true;
+    if (offset === 0) return false;
+    const bytesBefore = await readBytes(
+      filePath,
+      offset - fingerprint.length,
+      offset
+    );
+    return !bytesBefore.equals(fingerprint);
+  }
+
+  return {
+    async poll() {
+      if (!existsSync(filePath)) {
+        if (state === "missing") return undefined;
+        state = "missing";
+        moveTo(0, Buffer.alloc(0));
+        return { kind: "reset", reason: "missing", end: 0 };
+      }
+
+      const { size, ino } = await stat(filePath);
+      if (state === "new") {
+        state = "following";
+        inode = ino;
+        return { kind: "reset", reason: "start", end: await skipToEnd(size) };
+      }
+      if (state === "following" && (await wasRewritten(size, ino))) {
+        inode = ino;
+        return {
+          kind: "reset",
+          reason: size === 0 ? "cleared" : "truncated",
+          end: await skipToEnd(size),
+        };
+      }
+      // A file that was missing is followed from its first line.
+      state = "following";
+      inode = ino;
+      if (size === offset) return undefined;
+      const lines = await readWholeLines(offset, size);
+      return lines.length > 0 ? { kind: "append", lines } : undefined;
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// Lines of the updater's log in either logFormat. The browser app reads logs through
+// this module too, so it must not use node modules.
+
+export const LOG_LEVELS = ["DEBUG", "INFO", "WARN", "ERROR"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFormat = "text" | "jsonl";
+
+// One line of a "jsonl" log.
+export const logEntrySchema = z.object({
+  ts: z.string(), // ISO 8601
+  level: z.enum(LOG_LEVELS),
+  msg: z.string(),
+  runId: z.string().optional(), // shared by every line of one updater run
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export type LogEntry = z.infer<typeof logEntrySchema>;
+
+const TEXT_LINE_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}T\S+)\s+(DEBUG|INFO|WARN|ERROR)\s+(.*)$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseTextLine(line: string): LogEntry | undefined {
+  const match = TEXT_LINE_PATTERN.exec(line);
+  if (!match) return undefined;
+  const [, ts, level, rest] = match;
+  const metadataMatch = /^(.*?)\s+(\{.*\})$/.exec(rest);
+  if (metadataMatch) {
+    try {
+      const metadata: unknown = JSON.parse(metadataMatch[2]);
+      if (isRecord(metadata)) {
+        return {
+          ts,
+          level: level as LogLevel,
+          msg: metadataMatch[1],
+          metadata,
+        };
+      }
+    } catch {
+      // A message that merely ends in braces.
+    }
+  }
+  return { ts, level: level as LogLevel, msg: rest };
+}
+
+// Lines in neither format, such as stack traces on stderr, give undefined.
+export function parseLogLine(line: string): LogEntry | undefined {
+  if (!line.startsWith("{")) return parseTextLine(line);
+  try {
+    const parsed = logEntrySchema.safeParse(JSON.parse(line));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export type LogFilter = {
+  levels?: LogLevel[];
+  since?: number; // epoch milliseconds, inclusive
+  until?: number; // epoch milliseconds, exclusive
+  runId?: string;
+  // "key" keeps lines whose metadata has the key; "key=value" also compares its value.
+  // Dotted keys reach into nested objects.
+  metadata?: string;
+  // Tried against the whole line, so it also finds lines in neither format.
+  pattern?: RegExp;
+};
+
+function getMetadataValue(metadata: Record<string, unknown>, key: string) {
+  let value: unknown = metadata;
+  for (const part of key.split(".")) {
+    if (!isRecord(value) || !(part in value)) return undefined;
+    value = value[part];
+  }
+  return value;
+}
+
+function matchesMetadataFilter(entry: LogEntry, filter: string) {
+  const separatorIndex = filter.indexOf("=");
+  const key = (
+    separatorIndex === -1 ? filter : filter.slice(0, separatorIndex)
+  ).trim();
+  if (!key) return true;
+  const value = getMetadataValue(entry.metadata ?? {}, key);
+  if (value === undefined) return false;
+  if (separatorIndex === -1) return true;
+  const expected = filter.slice(separatorIndex + 1).trim();
+  return (
+    (typeof value === "string" ? value : JSON.stringify(value)) === expected
+  );
+}
+
+// Whether the filter needs the parsed line; `pattern` does not.
+export function hasLogFilter(filter: LogFilter) {
+  return Boolean(
+    filter.levels ||
+      filter.since !== undefined ||
+      filter.until !== undefined ||
+      filter.runId ||
+      filter.metadata
+  );
+}
+
+function matchesTimeRange(entry: LogEntry, filter: LogFilter) {
+  if (filter.since === undefined && filter.until === undefined) return true;
+  const time = Date.parse(entry.ts);
+  if (Number.isNaN(time)) return false;
+  if (filter.since !== undefined && time < filter.since) return false;
+  if (filter.until !== undefined && time >= filter.until) return false;
+  return true;
+}
+
+// Lines that could not be parsed only pass when the filter does not need them parsed.
+export function matchesLogFilter(
+  line: string,
+  entry: LogEntry | undefined,
+  filter: LogFilter
+) {
+  if (filter.pattern) {
+    filter.pattern.lastIndex = 0;
+    if (!filter.pattern.test(line)) return false;
+  }
+  if (!hasLogFilter(filter)) return true;
+  if (!entry) return false;
+  if (filter.levels && !filter.levels.includes(entry.level)) return false;
+  if (!matchesTimeRange(entry, filter)) return false;
+  if (filter.runId && entry.runId !== filter.runId) return false;
+  if (filter.metadata && !matchesMetadataFilter(entry, filter.metadata)) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { gzipSync } from "node:zlib";
+import { LogCursorError, readLogArchivePage, readLogPage } from "./log-reader";
+
+let directory: string;
+let logPath: string;
+
+const lines = Array.from(
+  { length: 10 },
+  (_, index) =>
+    `2026-10-19T10:00:0${index}.000Z ${
+      index % 2 ? "WARN" : "INFO"
+    } line ${index}`
+);
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "log-reader-"));
+  logPath = path.join(directory, "test.log");
+  await writeFile(logPath, `${lines.join("\n")}\n`);
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function readAllPages(
+  read: (
+    cursor?: number
+  ) => Promise<{ lines: string[]; nextCursor: number | null }>
+) {
+  const pages: string[][] = [];
+  let cursor: number | undefined;
+  for (;;) {
+    const page = await read(cursor);
+    pages.push(page.lines);
+    if (page.nextCursor === null) return pages;
+    cursor = page.nextCursor;
+  }
+}
+
+describe("readLogPage", () => {
+  test("reports a missing file", async () => {
+    expect(await readLogPage(path.join(directory, "none.log"), 5, {})).toEqual({
+      lines: [],
+      nextCursor: null,
+      missing: true,
+    });
+  });
+
+  test("returns the newest lines, oldest first", async () => {
+    const page = await readLogPage(logPath, 3, {});
+    expect(page.lines).toEqual(lines.slice(7));
+    expect(page.nextCursor).not.toBeNull();
+  });
+
+  test("pages back to the start through the cursor", async () => {
+    const pages = await readAllPages((cursor) =>
+      readLogPage(logPath, 4, {}, cursor)
+    );
+    expect(pages).toEqual([
+      lines.slice(6),
+      lines.slice(2, 6),
+      lines.slice(0, 2),
+    ]);
+  });
+
+  test("counts only lines that pass the filter", async () => {
+    const pages = await readAllPages((cursor) =>
+      readLogPage(logPath, 2, { levels: ["WARN"] }, cursor)
+    );
+    expect(pages).toEqual([
+      [lines[7], lines[9]],
+      [lines[3], lines[5]],
+      [lines[1]],
+    ]);
+  });
+
+  test("rejects a cursor that is not at the start of a line", async () => {
+    const { nextCursor } = await readLogPage(logPath, 3, {});
+    await writeFile(logPath, "rotated\n");
+    await expect(
+      readLogPage(logPath, 3, {}, nextCursor ?? 0)
+    ).rejects.toBeInstanceOf(LogCursorError);
+  });
+
+  test("handles a last line without a newline and CRLF endings", async () => {
+    await writeFile(logPath, "one\r\ntwo\r\nthree");
+    expect((await readLogPage(logPath, 10, {})).lines).toEqual([
+      "one",
+      "two",
+      "three",
+    ]);
+  });
+});
+
+describe("readLogArchivePage", () => {
+  test("pages through a gzip archive", async () => {
+    const archivePath = `${logPath}.20261019T100000000Z.gz`;
+    await writeFile(archivePath, gzipSync(`${lines.join("\n")}\n`));
+    const pages = await readAllPages((cursor) =>
+      readLogArchivePage(archivePath, 5, {}, cursor)
+    );
+    expect(pages).toEqual([lines.slice(5), lines.slice(0, 5)]);
+  });
+});
@@ -0,0 +1,158 @@
+import { existsSync } from "node:fs";
+import { open, readFile } from "node:fs/promises";
+import { promisify } from "node:util";
+import { gunzip } from "node:zlib";
+import { type LogFilter, matchesLogFilter, parseLogLine } from "./log-format";
+
+export type LogPage = {
+  lines: string[]; // oldest first
+  // Byte offset of the first returned line, set when older lines pass the filter too.
+  nextCursor: number | null;
+  missing: boolean;
+};
+
+// The cursor no longer points at the start of a line, because the log was rotated or
+// cleared since the page before it was read.
+export class LogCursorError extends Error {
+  constructor() {
+    super("The log changed since the previous page was read. Reload it.");
+    this.name = "LogCursorError";
+  }
+}
+
+type ByteSource = {
+  size: number;
+  read: (start: number, end: number) => Promise<Buffer>;
+};
+
+const NEWLINE = 0x0a;
+const CHUNK_SIZE = 64 * 1024;
+const gunzipAsync = promisify(gunzip);
+
+function decodeLine(bytes: Buffer) {
+  return bytes.toString("utf8").replace(/\r$/, "");
+}
+
+// Yields the lines before `end`, newest first, with the offset each starts at. Reads a
+// chunk at a time from the end, so a page near the end never touches the rest.
+async function* readLinesBackward(source: ByteSource, end: number) {
+  let chunkStart = end;
+  let pending = Buffer.alloc(0); // from chunkStart to the end of the current line
+  let isLastLine = true;
+  while (chunkStart > 0) {
+    const readStart = Math.max(0, chunkStart - CHUNK_SIZE);
+    pending = Buffer.concat([
+      await source.read(readStart, chunkStart),
+      pending,
+    ]);
+    chunkStart = readStart;
+    // The newline ending the last line does not start an empty one after it.
+    if (isLastLine && pending.length > 0) {
+      if (pending[pending.length - 1] === NEWLINE) {
+        pending = pending.subarray(0, -1);
+      }
+      isLastLine = false;
+    }
+    for (
+      let index = pending.lastIndexOf(NEWLINE);
+      index !== -1;
+      index = pending.lastIndexOf(NEWLINE)
+    ) {
+      yield {
+        line: decodeLine(pending.subarray(index + 1)),
+        start: chunkStart + index + 1,
+      };
+      pending = pending.subarray(0, index);
+    }
+  }
+  if (end > 0) yield { line: decodeLine(pending), start: 0 };
+}
+
+async function readPage(
+  source: ByteSource,
+  lineLimit: number,
+  filter: LogFilter,
+  cursor: number | undefined
+): Promise<LogPage> {
+  if (cursor !== undefined) {
+    const isLineStart =
+      cursor === 0 ||
+      (cursor <= source.size &&
+        (await source.read(cursor - 1, cursor))[0] === NEWLINE);
+    if (!isLineStart) throw new LogCursorError();
+  }
+
+  const lines: string[] = [];
+  let oldestStart = 0;
+  let nextCursor: number | null = null;
+  for await (const { line, start } of readLinesBackward(
+    source,
+    cursor ?? source.size
+  )) {
+    if (!matchesLogFilter(line, parseLogLine(line), filter)) continue;
+    if (lines.length === lineLimit) {
+      nextCursor = oldestStart;
+      break;
+    }
+    lines.push(line);
+    oldestStart = start;
+  }
+  return { lines: lines.reverse(), nextCursor, missing: false };
+}
+
+// The newest `lineLimit` lines before `cursor` (or the end of the log) that pass the
+// filter.
+export async function readLogPage(
+  filePath: string,
+  lineLimit: number,
+  filter: LogFilter,
+  cursor?: number
+): Promise<LogPage> {
+  if (!existsSync(filePath)) {
+    return { lines: [], nextCursor: null, missing: true };
+  }
+  const handle = await open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    return await readPage(
+      {
+        size,
+        async read(start, end) {
+          const buffer = Buffer.alloc(end - start);
+          const { bytesRead } = await handle.read(
+            buffer,
+            0,
+            buffer.length,
+            start
+          );
+          return buffer.subarray(0, bytesRead);
+        },
+      },
+      lineLimit,
+      filter,
+      cursor
+    );
+  } finally {
+    await handle.close();
+  }
+}
+
+// Like readLogPage for a rotated log. A gzip file cannot be read from its end, so it is
+// unpacked whole; rotation keeps archives to the size of one log.
+export async function readLogArchivePage(
+  archivePath: string,
+  lineLimit: number,
+  filter: LogFilter,
+  cursor?: number
+): Promise<LogPage> {
+  const content = await gunzipAsync(await readFile(archivePath));
+  return readPage(
+    {
+      size: content.length,
+      read: async (start, end) => content.subarray(start, end),
+    },
+    lineLimit,
+    filter,
+    cursor
+  );
+}
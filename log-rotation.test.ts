@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { gunzipSync } from "node:zlib";
+import { listLogArchives, rotateLogFile } from "./log-rotation";
+
+let directory: string;
+let logPath: string;
+
+const content = Array.from(
+  { length: 10 },
+  (_, index) => `2026-10-19T10:00:0${index}.000Z INFO line ${index}\n`
+).join("");
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "log-rotation-"));
+  logPath = path.join(directory, "test.log");
+  await writeFile(logPath, content);
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("rotateLogFile", () => {
+  test("leaves a log under both limits alone", async () => {
+    expect(
+      await rotateLogFile(logPath, {
+        maxBytes: 10_000,
+        maxLines: 10,
+        maxArchives: 3,
+      })
+    ).toBeUndefined();
+    expect(await readFile(logPath, "utf8")).toBe(content);
+  });
+
+  test("archives and empties a log over the line limit", async () => {
+    const archivePath = await rotateLogFile(logPath, {
+      maxBytes: 0,
+      maxLines: 9,
+      maxArchives: 3,
+    });
+    expect(archivePath).toBeDefined();
+    expect(gunzipSync(await readFile(archivePath as string)).toString()).toBe(
+      content
+    );
+    expect(await readFile(logPath, "utf8")).toBe("");
+    expect((await listLogArchives(logPath)).map(({ path }) => path)).toEqual([
+      archivePath as string,
+    ]);
+  });
+
+  test("does not count the lines of a log too small to pass the limit", async () => {
+    // Ten lines, each shorter than a timestamp.
+    await writeFile(logPath, "short\n".repeat(10));
+    expect(
+      await rotateLogFile(logPath, { maxBytes: 0, maxLines: 3, maxArchives: 3 })
+    ).toBeUndefined();
+  });
+
+  test("rotates on size and keeps only the newest archives", async () => {
+    const oldArchives = [
+      "test.log.20261017T100000000Z.gz",
+      "test.log.20261018T100000000Z.gz",
+    ];
+    for (const name of oldArchives) {
+      await writeFile(path.join(directory, name), "");
+    }
+    await rotateLogFile(logPath, {
+      maxBytes: 100,
+      maxLines: 0,
+      maxArchives: 2,
+    });
+    const archives = (await listLogArchives(logPath)).map(({ name }) => name);
+    expect(archives).toHaveLength(2);
+    expect(archives[1]).toBe(oldArchives[1]);
+  });
+
+  test("empties the log without archiving when none are kept", async () => {
+    expect(
+      await rotateLogFile(logPath, { maxBytes: 1, maxLines: 0, maxArchives: 0 })
+    ).toBeUndefined();
+    expect(await readFile(logPath, "utf8")).toBe("");
+    expect(await listLogArchives(logPath)).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { createReadStream, createWriteStream, existsSync } from "node:fs";
+import {
+  appendFile,
+  open,
+  readdir,
+  rename,
+  rm,
+  stat,
+  truncate,
+} from "node:fs/promises";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGzip } from "node:zlib";
+
+export type LogRotationLimits = {
+  maxBytes: number; // 0 turns the size limit off
+  maxLines: number; // 0 turns the line limit off
+  maxArchives: number;
+};
+
+export type LogArchive = {
+  name: string;
+  path: string;
+  size: number; // compressed
+  rotatedAt: number; // epoch seconds
+};
+
+const NEWLINE = 0x0a;
+// Every line the updater writes starts with a 24-character timestamp. Shorter lines, such
+// as a stack trace in the error log, can pass the line limit unseen; logMaxBytes still
+// catches them.
+const MIN_LINE_BYTES = 25;
+// Archives are named `<log file>.<UTC time>.gz`, e.g. spotify-status.log.20261019T143000123Z.gz,
+// so sorting their names sorts them by age.
+const ARCHIVE_SUFFIX_PATTERN = /^\.\d{8}T\d{9}Z\.gz$/;
+
+function createArchivePath(filePath: string) {
+  const timestamp = new Date().toISOString().replace(/[-:.]/g, "");
+  return `${filePath}.${timestamp}.gz`;
+}
+
+// Newest first.
+export async function listLogArchives(filePath: string): Promise<LogArchive[]> {
+  const directory = path.dirname(filePath);
+  const baseName = path.basename(filePath);
+  if (!existsSync(directory)) return [];
+
+  const archives: LogArchive[] = [];
+  for (const name of await readdir(directory)) {
+    if (
+      !name.startsWith(baseName) ||
+      !ARCHIVE_SUFFIX_PATTERN.test(name.slice(baseName.length))
+    ) {
+      continue;
+    }
+    const archivePath = path.join(directory, name);
+    const { size, mtimeMs } = await stat(archivePath);
+    archives.push({
+      name,
+      path: archivePath,
+      size,
+      rotatedAt: Math.floor(mtimeMs / 1000),
+    });
+  }
+  return archives.sort((left, right) => right.name.localeCompare(left.name));
+}
+
+// Stops reading as soon as the limit is passed.
+async function hasMoreLinesThan(filePath: string, maxLines: number) {
+  let lineCount = 0;
+  for await (const chunk of createReadStream(filePath)) {
+    const bytes = chunk as Buffer;
+    for (
+      let index = bytes.indexOf(NEWLINE);
+      index !== -1;
+      index = bytes.indexOf(NEWLINE, index + 1)
+    ) {
+      lineCount += 1;
+      if (lineCount > maxLines) return true;
+    }
+  }
+  return false;
+}
+
+async function needsRotation(
+  filePath: string,
+  size: number,
+  limits: LogRotationLimits
+) {
+  if (limits.maxBytes > 0 && size > limits.maxBytes) return true;
+  // Too small to hold more lines than the limit, so it is not read.
+  if (size <= limits.maxLines * MIN_LINE_BYTES) return false;
+  return limits.maxLines > 0 && hasMoreLinesThan(filePath, limits.maxLines);
+}
+
+async function readFrom(filePath: string, start: number) {
+  const handle = await open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const buffer = Buffer.alloc(Math.max(0, size - start));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function writeArchive(filePath: string, size: number) {
+  const archivePath = createArchivePath(filePath);
+  const temporaryPath = `${archivePath}.tmp`;
+  try {
+    await pipeline(
+      createReadStream(filePath, { start: 0, end: size - 1 }),
+      createGzip(),
+      createWriteStream(temporaryPath)
+    );
+    await rename(temporaryPath, archivePath);
+  } catch (error) {
+    await rm(temporaryPath, { force: true });
+    throw error;
+  }
+  return archivePath;
+}
+
+async function pruneLogArchives(filePath: string, maxArchives: number) {
+  const archives = await listLogArchives(filePath);
+  for (const archive of archives.slice(maxArchives)) {
+    await rm(archive.path, { force: true });
+  }
+}
+
+// Once the log passes either limit, copies it to a gzip archive and empties it in
+// place. It is not renamed: launchd and shell redirects keep the file open and would go
+// on writing to the archive. A line written between the copy and the truncation would be
+// lost, so callers hold the log lock and keep their own lines back until this returns.
+// Anything else written during the copy, such as a crash report, is put back afterwards.
+// Returns the archive written, or undefined when the log was left alone or no archives
+// are kept.
+export async function rotateLogFile(
+  filePath: string,
+  limits: LogRotationLimits
+): Promise<string | undefined> {
+  if (!existsSync(filePath)) return undefined;
+  const { size } = await stat(filePath);
+  if (size === 0 || !(await needsRotation(filePath, size, limits))) {
+    return undefined;
+  }
+
+  const archivePath =
+    limits.maxArchives > 0 ? await writeArchive(filePath, size) : undefined;
+  const writtenSince = await readFrom(filePath, size);
+  await truncate(filePath, 0);
+  if (writtenSince.length > 0) await appendFile(filePath, writtenSince);
+  await pruneLogArchives(filePath, limits.maxArchives);
+  return archivePath;
+}
@@ -0,0 +1,204 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const executeFileAsync = promisify(execFile);
+
+export type PlayerState = "playing" | "paused" | "stopped" | "unknown";
+
+export type PlayerSourceKind = "applescript" | "mpris";
+
+export type TrackInfo = {
+  artist: string;
+  title: string;
+  album: string;
+  durationSeconds: number;
+  positionSeconds: number;
+  // Spotify URI (spotify:track:...) or the player's own track id.
+  uri: string;
+  // Playlist, album, artist or show URI the track is played from. The players do not
+  // report it; it is filled in from the Spotify Web API when that is configured. null
+  // when the Web API reports no context, undefined when it was not read.
+  contextUri?: string | null;
+  // Epoch seconds at which the track would have started playing at the current position.
+  playingSince: number;
+};
+
+export type PlayerSource = {
+  kind: PlayerSourceKind;
+  isRunning(): Promise<boolean>;
+  getState(): Promise<PlayerState>;
+  getTrack(): Promise<TrackInfo>;
+};
+
+// ASCII unit separator: safe to join metadata fields that may contain tabs or dashes.
+const FIELD_SEPARATOR = "\u001f";
+
+function parseNumber(value: string | undefined) {
+  // AppleScript formats reals with the system locale's decimal separator.
+  const parsed = Number((value ?? "").trim().replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function parseTrackFields(
+  output: string,
+  units: { durationPerSecond: number; positionPerSecond: number }
+): TrackInfo {
+  const [artist, title, album, duration, position, uri] =
+    output.split(FIELD_SEPARATOR);
+  if (!title) {
+    // Not the output itself: it can describe a track the privacy filter hides.
+    throw new Error("Player returned no track metadata.");
+  }
+  const positionSeconds = parseNumber(position) / units.positionPerSecond;
+  return {
+    artist: (artist ?? "").trim(),
+    title: title.trim(),
+    album: (album ?? "").trim(),
+    durationSeconds: parseNumber(duration) / units.durationPerSecond,
+    positionSeconds,
+    uri: (uri ?? "").trim(),
+    playingSince: Math.floor(Date.now() / 1000 - positionSeconds),
+  };
+}
+
+async function osascript(script: string): Promise<string> {
+  const { stdout } = await executeFileAsync(
+    "/usr/bin/osascript",
+    ["-e", script],
+    {
+      timeout: 10_000,
+    }
+  );
+  return stdout.trim();
+}
+
+export function createAppleScriptPlayerSource(): PlayerSource {
+  return {
+    kind: "applescript",
+    async isRunning() {
+      try {
+        await executeFileAsync("/usr/bin/pgrep", ["Spotify"], {
+          timeout: 3_000,
+        });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async getState() {
+      try {
+        const state = await osascript(
+          'tell application "Spotify" to player state'
+        );
+        if (state === "playing" || state === "paused" || state === "stopped")
+          return state;
+        return "unknown";
+      } catch {
+        return "unknown";
+      }
+    },
+    async getTrack() {
+      const output = await osascript(
+        [
+          'tell application "Spotify"',
+          "set sep to ASCII character 31",
+          "set t to current track",
+          "return (artist of t) & sep & (name of t) & sep & (album of t) & sep & (duration of t as text) & sep & (player position as text) & sep & (id of t)",
+          "end tell",
+        ].join("\n")
+      );
+      // Spotify reports duration in milliseconds and position in seconds.
+      return parseTrackFields(output, {
+        durationPerSecond: 1000,
+        positionPerSecond: 1,
+      });
+    },
+  };
+}
+
+async function playerctl(playerName: string, args: string[]): Promise<string> {
+  const { stdout } = await executeFileAsync(
+    "playerctl",
+    ["--player", playerName, ...args],
+    { timeout: 5_000 }
+  );
+  return stdout.trim();
+}
+
+// Talks to any MPRIS-capable player over D-Bus through `playerctl`.
+export function createMprisPlayerSource(playerName: string): PlayerSource {
+  return {
+    kind: "mpris",
+    async isRunning() {
+      try {
+        // Exits non-zero with "No players found" when the player is not on the bus.
+        await playerctl(playerName, ["status"]);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async getState() {
+      try {
+        const status = (await playerctl(playerName, ["status"])).toLowerCase();
+        if (status === "playing" || status === "paused" || status === "stopped")
+          return status;
+        return "unknown";
+      } catch {
+        return "unknown";
+      }
+    },
+    async getTrack() {
+      const output = await playerctl(playerName, [
+        "metadata",
+        "--format",
+        [
+          "{{artist}}",
+          "{{title}}",
+          "{{album}}",
+          "{{mpris:length}}",
+          "{{position}}",
+          "{{mpris:trackid}}",
+        ].join(FIELD_SEPARATOR),
+      ]);
+      // MPRIS reports both length and position in microseconds.
+      const track = parseTrackFields(output, {
+        durationPerSecond: 1_000_000,
+        positionPerSecond: 1_000_000,
+      });
+      // Spotify exposes its track id as a D-Bus object path.
+      const spotifyTrackId = /^\/com\/spotify\/(track|episode)\/(\w+)$/.exec(
+        track.uri
+      );
+      return spotifyTrackId
+        ? {
+            ...track,
+            uri: `spotify:${spotifyTrackId[1]}:${spotifyTrackId[2]}`,
+          }
+        : track;
+    },
+  };
+}
+
+export function detectPlayerSourceKind(
+  platform: NodeJS.Platform = process.platform
+): PlayerSourceKind {
+  if (platform === "darwin") return "applescript";
+  if (platform === "linux") return "mpris";
+  throw new Error(
+    `No music player source available for platform "${platform}". Set playerSource in the config.`
+  );
+}
+
+export function createPlayerSource(options: {
+  playerSource: PlayerSourceKind | "auto";
+  mprisPlayerName: string;
+}): PlayerSource {
+  const kind =
+    options.playerSource === "auto"
+      ? detectPlayerSourceKind()
+      : options.playerSource;
+  return kind === "applescript"
+    ? createAppleScriptPlayerSource()
+    : createMprisPlayerSource(options.mprisPlayerName);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import type { TrackInfo } from "./player-source";
+import { evaluatePrivacyFilter, parseTitleFilter } from "./privacy-filter";
+
+const track: TrackInfo = {
+  artist: "Artist A & Artist B",
+  title: "Secret Song",
+  album: "Album",
+  durationSeconds: 200,
+  positionSeconds: 0,
+  uri: "spotify:track:4uLU6hMCjMI75M1A2tKUQC",
+  playingSince: 1_792_000_000,
+};
+
+describe("parseTitleFilter", () => {
+  test("treats plain entries as literal substrings", () => {
+    expect(parseTitleFilter("song (live)").test("My Song (Live)")).toBe(true);
+    expect(parseTitleFilter("a.c").test("abc")).toBe(false);
+  });
+
+  test("treats /entries/ as regular expressions", () => {
+    expect(parseTitleFilter("/^secret/").test("Secret Song")).toBe(true);
+  });
+});
+
+describe("evaluatePrivacyFilter", () => {
+  test("shows everything without a filter", () => {
+    expect(evaluatePrivacyFilter(undefined, track)).toEqual({ hidden: false });
+  });
+
+  test("blocks one of several artists and substitutes by default", () => {
+    expect(
+      evaluatePrivacyFilter({ blockedArtists: ["x", "artist b"] }, track)
+    ).toEqual({
+      hidden: true,
+      reason: "artist",
+      entryIndex: 1,
+      action: "substitute",
+      substituteText: "Listening to music",
+    });
+  });
+
+  test("blocks titles and URIs", () => {
+    expect(
+      evaluatePrivacyFilter({ blockedTitles: ["secret"] }, track)
+    ).toMatchObject({ hidden: true, reason: "title", entryIndex: 0 });
+    expect(
+      evaluatePrivacyFilter({ blockedUris: [track.uri], action: "skip" }, track)
+    ).toMatchObject({ hidden: true, reason: "uri", action: "skip" });
+  });
+
+  test("blocks what a track is played from", () => {
+    const filter = { blockedUris: ["spotify:playlist:37i9dQZF1DX4sWSpwq3LiO"] };
+    expect(
+      evaluatePrivacyFilter(filter, {
+        ...track,
+        contextUri: "spotify:playlist:37i9dQZF1DX4sWSpwq3LiO",
+      })
+    ).toMatchObject({ hidden: true, reason: "uri", entryIndex: 0 });
+    expect(
+      evaluatePrivacyFilter(filter, {
+        ...track,
+        contextUri: "spotify:album:6dVIqQ8qmQ5GBnJ9shOYGE",
+      })
+    ).toEqual({ hidden: false });
+    expect(
+      evaluatePrivacyFilter(filter, { ...track, contextUri: null })
+    ).toEqual({ hidden: false });
+  });
+
+  test("hides the track while what it is played from is unknown", () => {
+    const filter = {
+      blockedUris: [track.uri, "spotify:album:6dVIqQ8qmQ5GBnJ9shOYGE"],
+    };
+    expect(
+      evaluatePrivacyFilter(filter, { ...track, uri: "spotify:track:other" })
+    ).toMatchObject({ hidden: true, reason: "unknown-context", entryIndex: 1 });
+  });
+
+  test("blocks podcast episodes when asked", () => {
+    const episode = { ...track, uri: "spotify:episode:512ojhOuo1ktJprKbVcKyQ" };
+    expect(
+      evaluatePrivacyFilter({ blockPodcasts: true }, episode)
+    ).toMatchObject({ hidden: true, reason: "podcast" });
+    expect(evaluatePrivacyFilter({ blockPodcasts: true }, track)).toEqual({
+      hidden: false,
+    });
+  });
+});
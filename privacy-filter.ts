@@ -0,0 +1,93 @@
+import type { PrivacyFilter } from "./config-schema";
+import type { TrackInfo } from "./player-source";
+
+export const DEFAULT_PRIVACY_SUBSTITUTE_TEXT = "Listening to music";
+
+// "unknown-context": a playlist, album, artist or show is blocked, and what the track is
+// played from could not be read.
+type PrivacyBlockReason =
+  | "artist"
+  | "title"
+  | "uri"
+  | "unknown-context"
+  | "podcast";
+
+export type PrivacyDecision =
+  | { hidden: false }
+  | {
+      hidden: true;
+      // Which kind of entry matched; never the track details themselves, so it is safe to log.
+      reason: PrivacyBlockReason;
+      entryIndex?: number;
+      action: "skip" | "substitute";
+      substituteText: string;
+    };
+
+// Entries written as /pattern/ are regular expressions, anything else is a plain substring.
+export function parseTitleFilter(entry: string) {
+  const regexMatch = /^\/(.+)\/$/.exec(entry);
+  return regexMatch
+    ? new RegExp(regexMatch[1], "i")
+    : new RegExp(entry.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+}
+
+// Playlist, album, artist and show URIs name what a track is played from, not the track.
+export function isContextUri(uri: string) {
+  return /^spotify:(?:playlist|album|artist|show):/.test(uri);
+}
+
+export function isPodcastEpisode(track: TrackInfo) {
+  return track.uri.startsWith("spotify:episode:");
+}
+
+function findBlockReason(
+  filter: PrivacyFilter,
+  track: TrackInfo
+): { reason: PrivacyBlockReason; entryIndex?: number } | undefined {
+  if (filter.blockPodcasts && isPodcastEpisode(track)) {
+    return { reason: "podcast" };
+  }
+
+  const artists = [track.artist, ...track.artist.split(/,\s*|\s+&\s+/)].map(
+    (name) => name.trim().toLowerCase()
+  );
+  const artistIndex = (filter.blockedArtists ?? []).findIndex((artist) =>
+    artists.includes(artist.trim().toLowerCase())
+  );
+  if (artistIndex !== -1) return { reason: "artist", entryIndex: artistIndex };
+
+  const titleIndex = (filter.blockedTitles ?? []).findIndex((entry) =>
+    parseTitleFilter(entry).test(track.title)
+  );
+  if (titleIndex !== -1) return { reason: "title", entryIndex: titleIndex };
+
+  const blockedUris = filter.blockedUris ?? [];
+  const uriIndex = blockedUris.findIndex((uri) =>
+    isContextUri(uri) ? uri === track.contextUri : uri === track.uri
+  );
+  if (uriIndex !== -1) return { reason: "uri", entryIndex: uriIndex };
+  // A blocked playlist or album may be playing, so the track is not revealed.
+  if (track.contextUri === undefined) {
+    const contextIndex = blockedUris.findIndex(isContextUri);
+    if (contextIndex !== -1) {
+      return { reason: "unknown-context", entryIndex: contextIndex };
+    }
+  }
+
+  return undefined;
+}
+
+export function evaluatePrivacyFilter(
+  filter: PrivacyFilter | undefined,
+  track: TrackInfo
+): PrivacyDecision {
+  if (!filter) return { hidden: false };
+  const match = findBlockReason(filter, track);
+  if (!match) return { hidden: false };
+  return {
+    hidden: true,
+    ...match,
+    action: filter.action ?? "substitute",
+    substituteText: filter.substituteText ?? DEFAULT_PRIVACY_SUBSTITUTE_TEXT,
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { getScheduleDecision } from "./schedule";
+
+// Monday 2026-10-19, 09:30 UTC.
+const monday = new Date("2026-10-19T09:30:00Z");
+
+describe("getScheduleDecision", () => {
+  test("is always active without a schedule", () => {
+    expect(getScheduleDecision(undefined, monday).active).toBe(true);
+  });
+
+  test("is active inside a weekly range", () => {
+    const decision = getScheduleDecision(
+      { timezone: "UTC", weekly: { mon: [{ start: "09:00", end: "17:00" }] } },
+      monday
+    );
+    expect(decision).toMatchObject({
+      active: true,
+      weekday: "mon",
+      localTime: "09:30",
+    });
+  });
+
+  test("is quiet outside the ranges and on days without any", () => {
+    const schedule = {
+      timezone: "UTC",
+      weekly: { mon: [{ start: "10:00", end: "17:00" }] },
+    };
+    expect(getScheduleDecision(schedule, monday)).toMatchObject({
+      active: false,
+      reason: "outside configured ranges",
+    });
+    expect(
+      getScheduleDecision(schedule, new Date("2026-10-20T12:00:00Z"))
+    ).toMatchObject({
+      active: false,
+      reason: "no ranges configured for this day",
+    });
+  });
+
+  test("uses the schedule's time zone", () => {
+    // 09:30 UTC is 18:30 in Tokyo.
+    const decision = getScheduleDecision(
+      {
+        timezone: "Asia/Tokyo",
+        weekly: { mon: [{ start: "09:00", end: "17:00" }] },
+      },
+      monday
+    );
+    expect(decision).toMatchObject({ active: false, localTime: "18:30" });
+  });
+
+  test("is quiet on a holiday", () => {
+    expect(
+      getScheduleDecision({ timezone: "UTC", holidays: ["2026-10-19"] }, monday)
+    ).toMatchObject({ active: false, reason: "holiday" });
+  });
+});
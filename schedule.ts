@@ -0,0 +1,92 @@
+import {
+  type StatusSchedule,
+  WEEKDAYS,
+  type Weekday,
+  timeOfDayToMinutes,
+} from "./config-schema";
+
+export type ScheduleDecision = {
+  active: boolean;
+  reason: string;
+  localDate?: string;
+  localTime?: string;
+  weekday?: Weekday;
+};
+
+const WEEKDAY_BY_SHORT_NAME: Record<string, Weekday> = {
+  Mon: "mon",
+  Tue: "tue",
+  Wed: "wed",
+  Thu: "thu",
+  Fri: "fri",
+  Sat: "sat",
+  Sun: "sun",
+};
+
+function getLocalDateParts(now: Date, timezone: string | undefined) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((entry) => entry.type === type)?.value ?? "";
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    time: `${part("hour")}:${part("minute")}`,
+    weekday: WEEKDAY_BY_SHORT_NAME[part("weekday")] ?? WEEKDAYS[0],
+  };
+}
+
+// Without a schedule the script may publish at any time. With one, it only publishes inside
+// the configured weekly ranges and never on a listed holiday; days without ranges are quiet.
+export function getScheduleDecision(
+  schedule: StatusSchedule | undefined,
+  now = new Date()
+): ScheduleDecision {
+  if (!schedule) {
+    return { active: true, reason: "no schedule configured" };
+  }
+
+  const local = getLocalDateParts(now, schedule.timezone);
+  const context = {
+    localDate: local.date,
+    localTime: local.time,
+    weekday: local.weekday,
+  };
+
+  if (schedule.holidays?.includes(local.date)) {
+    return { active: false, reason: "holiday", ...context };
+  }
+  if (!schedule.weekly) {
+    return { active: true, reason: "no weekly ranges configured", ...context };
+  }
+
+  const ranges = schedule.weekly[local.weekday] ?? [];
+  const minutes = timeOfDayToMinutes(local.time);
+  const matchingRange = ranges.find(
+    (range) =>
+      timeOfDayToMinutes(range.start) <= minutes &&
+      minutes < timeOfDayToMinutes(range.end)
+  );
+  if (!matchingRange) {
+    return {
+      active: false,
+      reason:
+        ranges.length === 0
+          ? "no ranges configured for this day"
+          : "outside configured ranges",
+      ...context,
+    };
+  }
+  return {
+    active: true,
+    reason: `inside ${matchingRange.start}-${matchingRange.end}`,
+    ...context,
+  };
+}
@@ -0,0 +1,300 @@
+import os from "node:os";
+import path from "node:path";
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { chmod, mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { promisify } from "node:util";
+
+const executeFileAsync = promisify(execFile);
+
+export type KeyringEntry = {
+  service: string;
+  account: string;
+};
+
+// A secret is either stored inline (plaintext in the config) or referenced from elsewhere.
+export type SecretRef =
+  | string
+  | { env: string }
+  | { file: string; key?: string }
+  | { keyring: KeyringEntry };
+
+export type SecretSource = "inline" | "env" | "file" | "keyring";
+
+export type SecretOptions = {
+  // Relative secrets file paths are resolved against this directory.
+  baseDirectory: string;
+  platform?: NodeJS.Platform;
+};
+
+export class SecretResolutionError extends Error {
+  readonly source: SecretSource;
+
+  constructor(source: SecretSource, message: string) {
+    super(message);
+    this.name = "SecretResolutionError";
+    this.source = source;
+  }
+}
+
+// Never part of a real token, so a masked value can be told apart from a new one.
+export const SECRET_MASK_CHARACTER = "…";
+
+export function getSecretSource(ref: SecretRef): SecretSource {
+  if (typeof ref === "string") return "inline";
+  if ("env" in ref) return "env";
+  if ("file" in ref) return "file";
+  return "keyring";
+}
+
+export function maskSecret(value: string) {
+  const prefixLength = value.startsWith("xox") ? 5 : 0;
+  if (value.length <= prefixLength + 8) return SECRET_MASK_CHARACTER;
+  return `${value.slice(0, prefixLength)}${SECRET_MASK_CHARACTER}${value.slice(
+    -4
+  )}`;
+}
+
+export function isMaskedSecret(value: string) {
+  return value.includes(SECRET_MASK_CHARACTER);
+}
+
+function resolveSecretsFilePath(filePath: string, options: SecretOptions) {
+  if (filePath === "~" || filePath.startsWith("~/")) {
+    return path.join(os.homedir(), filePath.slice(1));
+  }
+  return path.resolve(options.baseDirectory, filePath);
+}
+
+async function assertPrivateFile(filePath: string) {
+  const { mode } = await stat(filePath);
+  if ((mode & 0o077) !== 0) {
+    throw new SecretResolutionError(
+      "file",
+      `Secrets file ${filePath} is readable by other users; run chmod 600 on it.`
+    );
+  }
+}
+
+async function readSecretsFile(filePath: string) {
+  const contents = await readFile(filePath, "utf8");
+  try {
+    const parsed: unknown = JSON.parse(contents);
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+    ) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below.
+  }
+  throw new SecretResolutionError(
+    "file",
+    `Secrets file ${filePath} must contain a JSON object.`
+  );
+}
+
+function getKeyringCommand(
+  entry: KeyringEntry,
+  platform: NodeJS.Platform
+): { file: string; args: string[] } {
+  if (platform === "darwin") {
+    return {
+      file: "/usr/bin/security",
+      args: [
+        "find-generic-password",
+        "-s",
+        entry.service,
+        "-a",
+        entry.account,
+        "-w",
+      ],
+    };
+  }
+  if (platform === "linux") {
+    return {
+      file: "secret-tool",
+      args: ["lookup", "service", entry.service, "account", entry.account],
+    };
+  }
+  throw new SecretResolutionError(
+    "keyring",
+    `No keyring command is supported on ${platform}.`
+  );
+}
+
+export async function resolveSecret(
+  ref: SecretRef,
+  options: SecretOptions
+): Promise<string> {
+  if (typeof ref === "string") return ref;
+
+  if ("env" in ref) {
+    const value = (Bun.env[ref.env] ?? process.env[ref.env] ?? "").trim();
+    if (value === "") {
+      throw new SecretResolutionError(
+        "env",
+        `Environment variable ${ref.env} is not set.`
+      );
+    }
+    return value;
+  }
+
+  if ("file" in ref) {
+    const filePath = resolveSecretsFilePath(ref.file, options);
+    if (!existsSync(filePath)) {
+      throw new SecretResolutionError(
+        "file",
+        `Secrets file ${filePath} does not exist.`
+      );
+    }
+    await assertPrivateFile(filePath);
+    if (ref.key === undefined) {
+      const value = (await readFile(filePath, "utf8")).trim();
+      if (value === "") {
+        throw new SecretResolutionError(
+          "file",
+          `Secrets file ${filePath} is empty.`
+        );
+      }
+      return value;
+    }
+    const value = (await readSecretsFile(filePath))[ref.key];
+    if (typeof value !== "string" || value.trim() === "") {
+      throw new SecretResolutionError(
+        "file",
+        `Secrets file ${filePath} has no "${ref.key}" entry.`
+      );
+    }
+    return value.trim();
+  }
+
+  const command = getKeyringCommand(
+    ref.keyring,
+    options.platform ?? process.platform
+  );
+  try {
+    const { stdout } = await executeFileAsync(command.file, command.args, {
+      timeout: 10_000,
+    });
+    const value = stdout.trim();
+    if (value === "") throw new Error("empty output");
+    return value;
+  } catch (error) {
+    throw new SecretResolutionError(
+      "keyring",
+      `Keyring lookup for ${ref.keyring.service}/${
+        ref.keyring.account
+      } failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function quoteSecurityArgument(argument: string) {
+  return `"${argument.replace(/["\\]/g, "\\$&")}"`;
+}
+
+async function storeKeyringSecret(
+  entry: KeyringEntry,
+  value: string,
+  platform: NodeJS.Platform
+) {
+  if (platform === "darwin") {
+    // `security -i` reads the command from stdin, keeping the secret off the command
+    // line like secret-tool below.
+    const command = [
+      "add-generic-password",
+      "-U",
+      "-s",
+      entry.service,
+      "-a",
+      entry.account,
+      "-w",
+      value,
+    ]
+      .map(quoteSecurityArgument)
+      .join(" ");
+    const storing = executeFileAsync("/usr/bin/security", ["-i"], {
+      timeout: 10_000,
+    });
+    storing.child.stdin?.end(`${command}\n`);
+    // In interactive mode a failed command is only reported on stderr.
+    const { stderr } = await storing;
+    if (stderr.trim() !== "") throw new Error(stderr.trim());
+    return;
+  }
+  if (platform === "linux") {
+    // secret-tool reads the secret from stdin, keeping it off the command line.
+    const storing = executeFileAsync(
+      "secret-tool",
+      [
+        "store",
+        `--label=${entry.service} (${entry.account})`,
+        "service",
+        entry.service,
+        "account",
+        entry.account,
+      ],
+      { timeout: 10_000 }
+    );
+    storing.child.stdin?.end(value);
+    await storing;
+    return;
+  }
+  throw new SecretResolutionError(
+    "keyring",
+    `No keyring command is supported on ${platform}.`
+  );
+}
+
+// Writes a new secret value to where `current` points. Inline (or missing) secrets are
+// returned as the new value, so the caller stores them in the config as before.
+export async function storeSecret(
+  current: SecretRef | undefined,
+  value: string,
+  options: SecretOptions
+): Promise<SecretRef> {
+  if (current === undefined || typeof current === "string") return value;
+
+  if ("env" in current) {
+    throw new SecretResolutionError(
+      "env",
+      `The token is read from ${current.env}; update that environment variable instead.`
+    );
+  }
+
+  if ("file" in current) {
+    const filePath = resolveSecretsFilePath(current.file, options);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    let contents = `${value}\n`;
+    if (current.key !== undefined) {
+      const existing = existsSync(filePath)
+        ? await readSecretsFile(filePath)
+        : {};
+      contents = JSON.stringify({ ...existing, [current.key]: value }, null, 2);
+    }
+    await writeFile(filePath, contents, { encoding: "utf8", mode: 0o600 });
+    // The mode above only applies to newly created files.
+    await chmod(filePath, 0o600);
+    return current;
+  }
+
+  try {
+    await storeKeyringSecret(
+      current.keyring,
+      value,
+      options.platform ?? process.platform
+    );
+  } catch (error) {
+    if (error instanceof SecretResolutionError) throw error;
+    throw new SecretResolutionError(
+      "keyring",
+      `Keyring update for ${current.keyring.service}/${
+        current.keyring.account
+      } failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return current;
+}
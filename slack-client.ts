@@ -0,0 +1,327 @@
+export const DEFAULT_SLACK_API_BASE_URL = "https://slack.com/api";
+
+// User token scopes needed to read and set the status.
+export const SLACK_USER_SCOPES = ["users.profile:read", "users.profile:write"];
+
+// Status updates need a user token (xoxp-, or xoxe.xoxp- with token rotation).
+export function isSlackUserToken(token: string) {
+  return /^(?:xoxe\.)?xoxp-/.test(token);
+}
+
+export type SlackProfile = {
+  status_text?: string;
+  status_emoji?: string;
+  status_expiration?: number;
+};
+
+export type SlackIdentity = {
+  url?: string;
+  team?: string;
+  teamId?: string;
+  user?: string;
+  userId?: string;
+  // From the X-OAuth-Scopes header; undefined when Slack does not send it.
+  scopes?: string[];
+};
+
+export type SlackStatusUpdate = {
+  text: string;
+  emoji: string;
+  expiration: number;
+};
+
+export type SlackErrorKind =
+  | "auth"
+  | "rate_limited"
+  | "invalid_status"
+  | "timeout"
+  | "network"
+  | "http"
+  | "api";
+
+const AUTH_ERROR_CODES = new Set([
+  "invalid_auth",
+  "not_authed",
+  "token_revoked",
+  "token_expired",
+  "account_inactive",
+  "missing_scope",
+  "no_permission",
+]);
+
+const INVALID_STATUS_ERROR_CODES = new Set([
+  "profile_status_set_failed_not_valid_emoji",
+  "profile_status_set_failed_not_emoji_syntax",
+  "too_long",
+  "invalid_profile",
+]);
+
+export class SlackApiError extends Error {
+  readonly method: string;
+  readonly code: string;
+  readonly kind: SlackErrorKind;
+  readonly retryable: boolean;
+
+  constructor(
+    method: string,
+    code: string,
+    kind: SlackErrorKind,
+    retryable: boolean,
+    message?: string
+  ) {
+    super(message ?? `Slack API ${method} failed: ${code}`);
+    this.name = "SlackApiError";
+    this.method = method;
+    this.code = code;
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class SlackAuthError extends SlackApiError {
+  constructor(method: string, code: string) {
+    super(
+      method,
+      code,
+      "auth",
+      false,
+      `Slack API ${method} rejected the token: ${code}`
+    );
+    this.name = "SlackAuthError";
+  }
+}
+
+export class SlackRateLimitError extends SlackApiError {
+  readonly retryAfterSeconds: number;
+
+  constructor(method: string, retryAfterSeconds: number) {
+    super(
+      method,
+      "ratelimited",
+      "rate_limited",
+      true,
+      `Slack API ${method} is rate limited; retry after ${retryAfterSeconds}s`
+    );
+    this.name = "SlackRateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class SlackInvalidStatusError extends SlackApiError {
+  constructor(method: string, code: string) {
+    super(
+      method,
+      code,
+      "invalid_status",
+      false,
+      `Slack API ${method} rejected the status: ${code}`
+    );
+    this.name = "SlackInvalidStatusError";
+  }
+}
+
+export class SlackTimeoutError extends SlackApiError {
+  constructor(method: string, timeoutMs: number) {
+    super(
+      method,
+      "timeout",
+      "timeout",
+      true,
+      `Slack API ${method} timed out after ${timeoutMs}ms`
+    );
+    this.name = "SlackTimeoutError";
+  }
+}
+
+export function classifySlackError(method: string, code: string) {
+  if (code === "ratelimited") return new SlackRateLimitError(method, 1);
+  if (AUTH_ERROR_CODES.has(code)) return new SlackAuthError(method, code);
+  if (INVALID_STATUS_ERROR_CODES.has(code)) {
+    return new SlackInvalidStatusError(method, code);
+  }
+  const retryable = code === "internal_error" || code === "fatal_error";
+  return new SlackApiError(method, code, "api", retryable);
+}
+
+function parseRetryAfterSeconds(header: string | null) {
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : 1;
+}
+
+export type SlackRetryInfo = {
+  method: string;
+  attempt: number;
+  delayMs: number;
+  error: SlackApiError;
+};
+
+export type SlackClientOptions = {
+  token: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxAttempts?: number;
+  // Retry-After values above this are not waited for; the error is thrown instead.
+  maxRetryAfterSeconds?: number;
+  onRetry?: (info: SlackRetryInfo) => void;
+};
+
+export type SlackClient = {
+  call<T extends { ok: boolean; error?: string }>(
+    method: string,
+    body?: Record<string, unknown>
+  ): Promise<T>;
+  getProfile(): Promise<SlackProfile>;
+  setStatus(status: SlackStatusUpdate): Promise<void>;
+  authTest(): Promise<SlackIdentity>;
+};
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createSlackClient(options: SlackClientOptions): SlackClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_SLACK_API_BASE_URL).replace(
+    /\/+$/,
+    ""
+  );
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const maxAttempts = options.maxAttempts ?? 3;
+  const maxRetryAfterSeconds = options.maxRetryAfterSeconds ?? 30;
+
+  async function callOnce<T extends { ok: boolean; error?: string }>(
+    method: string,
+    body?: Record<string, unknown>
+  ): Promise<{ payload: T; headers: Headers }> {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/${method}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${options.token}`,
+          "Content-Type": "application/json; charset=UTF-8",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new SlackTimeoutError(method, timeoutMs);
+      }
+      throw new SlackApiError(
+        method,
+        "network_error",
+        "network",
+        true,
+        `Slack API ${method} request failed: ${String(error)}`
+      );
+    }
+
+    if (response.status === 429) {
+      throw new SlackRateLimitError(
+        method,
+        parseRetryAfterSeconds(response.headers.get("retry-after"))
+      );
+    }
+
+    const responseText = await response.text();
+    let payload: T;
+    try {
+      payload = JSON.parse(responseText) as T;
+    } catch (error) {
+      throw new SlackApiError(
+        method,
+        `http_${response.status}`,
+        "http",
+        response.status >= 500,
+        `Slack API ${method} returned non-JSON (HTTP ${
+          response.status
+        }): ${String(error)} body=${responseText.slice(0, 500)}`
+      );
+    }
+
+    if (!payload.ok) {
+      throw classifySlackError(method, payload.error ?? "unknown_error");
+    }
+    return { payload, headers: response.headers };
+  }
+
+  async function callWithHeaders<T extends { ok: boolean; error?: string }>(
+    method: string,
+    body?: Record<string, unknown>
+  ): Promise<{ payload: T; headers: Headers }> {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await callOnce<T>(method, body);
+      } catch (error) {
+        if (
+          !(error instanceof SlackApiError) ||
+          !error.retryable ||
+          attempt >= maxAttempts
+        ) {
+          throw error;
+        }
+        let delayMs = 250 * 2 ** (attempt - 1);
+        if (error instanceof SlackRateLimitError) {
+          if (error.retryAfterSeconds > maxRetryAfterSeconds) throw error;
+          delayMs = error.retryAfterSeconds * 1000;
+        }
+        options.onRetry?.({ method, attempt, delayMs, error });
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  async function call<T extends { ok: boolean; error?: string }>(
+    method: string,
+    body?: Record<string, unknown>
+  ): Promise<T> {
+    return (await callWithHeaders<T>(method, body)).payload;
+  }
+
+  return {
+    call,
+    async getProfile() {
+      const response = await call<{
+        ok: boolean;
+        error?: string;
+        profile?: SlackProfile;
+      }>("users.profile.get");
+      return response.profile ?? {};
+    },
+    async setStatus(status) {
+      await call("users.profile.set", {
+        profile: {
+          status_text: status.text,
+          status_emoji: status.emoji,
+          status_expiration: status.expiration,
+        },
+      });
+    },
+    async authTest() {
+      const { payload, headers } = await callWithHeaders<{
+        ok: boolean;
+        error?: string;
+        url?: string;
+        team?: string;
+        team_id?: string;
+        user?: string;
+        user_id?: string;
+      }>("auth.test");
+      const scopesHeader = headers.get("x-oauth-scopes");
+      return {
+        url: payload.url,
+        team: payload.team,
+        teamId: payload.team_id,
+        user: payload.user,
+        userId: payload.user_id,
+        scopes:
+          scopesHeader === null
+            ? undefined
+            : scopesHeader
+                .split(",")
+                .map((scope) => scope.trim())
+                .filter((scope) => scope !== ""),
+      };
+    },
+  };
+}
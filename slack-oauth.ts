@@ -0,0 +1,212 @@
+import { randomBytes } from "node:crypto";
+import {
+  DEFAULT_WORKSPACE_NAME,
+  type Config,
+  parseConfig,
+} from "./config-schema";
+import { type SecretOptions, storeSecret } from "./secrets";
+import {
+  SLACK_USER_SCOPES,
+  SlackApiError,
+  classifySlackError,
+} from "./slack-client";
+
+export const DEFAULT_SLACK_AUTHORIZE_URL =
+  "https://slack.com/oauth/v2/authorize";
+export const DEFAULT_SLACK_TOKEN_URL = "https://slack.com/api/oauth.v2.access";
+
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+export type SlackOAuthSettings = {
+  clientId: string;
+  clientSecret: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  // Defaults to the callback on the origin the flow was started from.
+  redirectUri?: string;
+};
+
+export type SlackOAuthGrant = {
+  accessToken: string;
+  userId?: string;
+  teamId?: string;
+  teamName?: string;
+};
+
+type PendingOAuthState = {
+  workspace?: string;
+  redirectUri: string;
+  expiresAt: number;
+};
+
+type OAuthAccessResponse = {
+  ok: boolean;
+  error?: string;
+  authed_user?: {
+    id?: string;
+    scope?: string;
+    access_token?: string;
+    token_type?: string;
+  };
+  team?: { id?: string; name?: string };
+};
+
+export function buildAuthorizeUrl(
+  settings: SlackOAuthSettings,
+  state: string,
+  redirectUri: string
+) {
+  const url = new URL(settings.authorizeUrl);
+  url.searchParams.set("client_id", settings.clientId);
+  url.searchParams.set("user_scope", SLACK_USER_SCOPES.join(","));
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("state", state);
+  return url.toString();
+}
+
+// States are single-use and only live in memory, so a restart cancels flows in progress.
+export function createOAuthStateStore() {
+  const pending = new Map<string, PendingOAuthState>();
+
+  return {
+    create(workspace: string | undefined, redirectUri: string) {
+      const now = Date.now();
+      for (const [state, entry] of pending) {
+        if (entry.expiresAt <= now) pending.delete(state);
+      }
+      const state = randomBytes(24).toString("base64url");
+      pending.set(state, {
+        workspace,
+        redirectUri,
+        expiresAt: now + OAUTH_STATE_TTL_MS,
+      });
+      return state;
+    },
+    consume(state: string) {
+      const entry = pending.get(state);
+      pending.delete(state);
+      if (!entry || entry.expiresAt <= Date.now()) return undefined;
+      return entry;
+    },
+  };
+}
+
+export async function exchangeOAuthCode(
+  settings: SlackOAuthSettings,
+  code: string,
+  redirectUri: string,
+  timeoutMs = 10_000
+): Promise<SlackOAuthGrant> {
+  const method = "oauth.v2.access";
+  let response: Response;
+  try {
+    response = await fetch(settings.tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: settings.clientId,
+        client_secret: settings.clientSecret,
+        code,
+        redirect_uri: redirectUri,
+      }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new SlackApiError(
+      method,
+      "network_error",
+      "network",
+      true,
+      `Slack API ${method} request failed: ${String(error)}`
+    );
+  }
+
+  let payload: OAuthAccessResponse;
+  try {
+    payload = (await response.json()) as OAuthAccessResponse;
+  } catch {
+    throw new SlackApiError(
+      method,
+      `http_${response.status}`,
+      "http",
+      response.status >= 500,
+      `Slack API ${method} returned non-JSON (HTTP ${response.status})`
+    );
+  }
+  if (!payload.ok) {
+    throw classifySlackError(method, payload.error ?? "unknown_error");
+  }
+
+  const accessToken = payload.authed_user?.access_token;
+  if (!accessToken) {
+    throw new SlackApiError(
+      method,
+      "missing_user_token",
+      "api",
+      false,
+      `Slack API ${method} did not return a user token.`
+    );
+  }
+  const grantedScopes = (payload.authed_user?.scope ?? "").split(",");
+  const missingScopes = SLACK_USER_SCOPES.filter(
+    (scope) => !grantedScopes.includes(scope)
+  );
+  if (missingScopes.length > 0) {
+    throw new SlackApiError(
+      method,
+      "missing_scope",
+      "auth",
+      false,
+      `Slack did not grant ${missingScopes.join(", ")}.`
+    );
+  }
+
+  return {
+    accessToken,
+    userId: payload.authed_user?.id,
+    teamId: payload.team?.id,
+    teamName: payload.team?.name,
+  };
+}
+
+// A single-token config keeps a single token; with workspaces, the grant replaces the
+// named workspace's token or is added as a new workspace named after the Slack team.
+// Tokens kept in a secrets file or keyring are updated there instead of the config.
+export async function applyOAuthGrant(
+  config: Config | undefined,
+  grant: SlackOAuthGrant,
+  workspace: string | undefined,
+  secretOptions: SecretOptions
+): Promise<{ config: Config; workspace: string }> {
+  if (!config?.workspaces) {
+    const slackToken = await storeSecret(
+      config?.slackToken,
+      grant.accessToken,
+      secretOptions
+    );
+    return {
+      config: parseConfig({ ...config, slackToken }),
+      workspace: DEFAULT_WORKSPACE_NAME,
+    };
+  }
+
+  const requestedName = workspace ?? grant.teamName ?? grant.teamId ?? "Slack";
+  // Workspace names are unique regardless of case.
+  const existing = config.workspaces.find(
+    (entry) => entry.name.toLowerCase() === requestedName.toLowerCase()
+  );
+  const slackToken = await storeSecret(
+    existing?.slackToken,
+    grant.accessToken,
+    secretOptions
+  );
+  const workspaces = existing
+    ? config.workspaces.map((entry) =>
+        entry === existing ? { ...entry, slackToken } : entry
+      )
+    : [...config.workspaces, { name: requestedName, slackToken }];
+  return {
+    config: parseConfig({ ...config, workspaces }),
+    workspace: existing?.name ?? requestedName,
+  };
+}
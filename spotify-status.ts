@@ -1,24 +1,77 @@
 import chalk from "chalk";
-import { existsSync } from "node:fs";
-import { readFile, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { existsSync, statSync } from "node:fs";
+import { readFile } from "node:fs/promises";
 import path from "node:path";
-import { execFile } from "node:child_process";
-import { promisify } from "node:util";
-import { z } from "zod";
+import { stripVTControlCharacters } from "node:util";
 import {
   RegExpMatcher,
   TextCensor,
   englishDataset,
   englishRecommendedTransformers,
 } from "obscenity";
-import { type Config, DEFAULT_CONFIG } from "./config-schema";
+import {
+  type Config,
+  type PrivacyFilter,
+  type SpotifyWebApiSettings,
+  type StatusSchedule,
+  DEFAULT_CONFIG,
+  getSlackWorkspaces,
+} from "./config-schema";
 import {
   getConfigSearchPaths,
-  readConfigFile,
+  readConfigFileWithVersion,
   resolveConfigPath,
 } from "./config";
-
-const executeFileAsync = promisify(execFile);
+import {
+  createPlayerSource,
+  type PlayerSourceKind,
+  type PlayerState,
+  type TrackInfo,
+} from "./player-source";
+import { renderStatusTemplate } from "./status-template";
+import { selectStatusEmoji } from "./emoji-rules";
+import {
+  type SlackStatus,
+  type StatusEmojiConfig,
+  determineStatusOwnership,
+  mayStillHoldScriptStatus,
+} from "./status-ownership";
+import { getScheduleDecision } from "./schedule";
+import { evaluatePrivacyFilter, type PrivacyDecision } from "./privacy-filter";
+import {
+  FileLockTimeoutError,
+  withFileLock,
+  writeFileAtomic,
+} from "./file-lock";
+import { type LogRotationLimits, rotateLogFile } from "./log-rotation";
+import {
+  type SpotifyWebApiClient,
+  createSpotifyWebApiClient,
+} from "./spotify-web-api";
+import {
+  SlackApiError,
+  SlackAuthError,
+  type SlackClient,
+  createSlackClient,
+} from "./slack-client";
+import {
+  type SecretRef,
+  SecretResolutionError,
+  resolveSecret,
+} from "./secrets";
+import {
+  type Cache,
+  type WorkspaceCache,
+  type WorkspaceResult,
+  getCacheFilePath,
+  getLastRunFilePath,
+  getWorkspaceCache,
+  parseCache,
+  pruneWorkspaceCaches,
+} from "./status-cache";
+import type { LastRun, LastRunWorkspace } from "./last-run";
+import type { LogEntry, LogFormat, LogLevel } from "./log-format";
 
 // Profanity filter setup
 const profanityMatcher = new RegExpMatcher({
@@ -33,66 +86,6 @@ function censorText(text: string): string {
   return textCensor.applyTo(text, matches);
 }
 
-type SlackProfile = {
-  status_text?: string;
-  status_emoji?: string;
-  status_expiration?: number;
-};
-
-type SlackProfileGetResponse = {
-  ok: boolean;
-  error?: string;
-  profile?: SlackProfile;
-};
-
-type Cache = {
-  updatedAt: number; // epoch seconds
-  lastNonEmptyNonOwned?: {
-    text: string;
-    emoji: string;
-    expiration: number;
-    observedAt: number;
-  };
-  emptyRead?: {
-    lastSeenAt: number;
-    consecutiveCount: number;
-  };
-  lastSetByScript?: {
-    text: string;
-    emoji: string;
-    expiration: number;
-    setAt: number;
-  };
-};
-
-const cacheSchema: z.ZodType<Cache> = z
-  .object({
-    updatedAt: z.number().finite().min(0),
-    lastNonEmptyNonOwned: z
-      .object({
-        text: z.string(),
-        emoji: z.string(),
-        expiration: z.number().finite().min(0),
-        observedAt: z.number().finite().min(0),
-      })
-      .optional(),
-    emptyRead: z
-      .object({
-        lastSeenAt: z.number().finite().min(0),
-        consecutiveCount: z.number().int().min(0),
-      })
-      .optional(),
-    lastSetByScript: z
-      .object({
-        text: z.string(),
-        emoji: z.string(),
-        expiration: z.number().finite().min(0),
-        setAt: z.number().finite().min(0),
-      })
-      .optional(),
-  })
-  .passthrough();
-
 const SCRIPT_VERSION = "ts-bun-v1";
 
 function currentTimestampSeconds() {
@@ -107,13 +100,47 @@ function redactSlackToken(value: string) {
   return value.replace(/xox[pbar]-[A-Za-z0-9-]+/g, "xox*-REDACTED");
 }
 
-type LogLevel = "DEBUG" | "INFO" | "WARN" | "ERROR";
+// Avoid dumping secrets.
+function redactTokensInJson(_key: string, value: unknown) {
+  return typeof value === "string" ? redactSlackToken(value) : value;
+}
+
+// Set from the config once it is loaded; lines logged before that are text.
+let logFormat: LogFormat = DEFAULT_CONFIG.logFormat;
+// Tags every line of one updater run, so a run can be picked out of the log.
+let activeRunId: string | undefined;
+
+function createRunId() {
+  return randomUUID().slice(0, 8);
+}
+
+// Lines logged while this process rotates its log, written once the log is emptied.
+let heldLogLines: string[] | undefined;
+
+function writeLogLine(line: string) {
+  if (heldLogLines) heldLogLines.push(line);
+  else console.log(line);
+}
 
 function log(
   level: LogLevel,
   message: string,
   metadata?: Record<string, unknown>
 ) {
+  const hasMetadata =
+    metadata !== undefined && Object.keys(metadata).length > 0;
+  if (logFormat === "jsonl") {
+    const entry: LogEntry = {
+      ts: timestampIso(),
+      level,
+      msg: stripVTControlCharacters(message),
+      runId: activeRunId,
+      metadata: hasMetadata ? metadata : undefined,
+    };
+    writeLogLine(JSON.stringify(entry, redactTokensInJson));
+    return;
+  }
+
   const prefix =
     level === "DEBUG"
       ? chalk.gray(level)
@@ -124,17 +151,28 @@ function log(
       : chalk.red(level);
 
   const line = `${chalk.gray(timestampIso())} ${prefix} ${message}`;
-  if (metadata && Object.keys(metadata).length > 0) {
-    // Avoid dumping secrets.
-    const sanitized = JSON.stringify(metadata, (_key, value) =>
-      typeof value === "string" ? redactSlackToken(value) : value
-    );
-    console.log(`${line} ${chalk.gray(sanitized)}`);
+  if (hasMetadata) {
+    const sanitized = JSON.stringify(metadata, redactTokensInJson);
+    writeLogLine(`${line} ${chalk.gray(sanitized)}`);
   } else {
-    console.log(line);
+    writeLogLine(line);
   }
 }
 
+async function readConfiguration(configPath: string) {
+  const { config, migration } = await readConfigFileWithVersion(configPath);
+  if (migration) {
+    log("INFO", "Config file upgraded to the current format.", {
+      configPath,
+      fromVersion: migration.fromVersion,
+      migrations: migration.applied,
+      // Unset when another process held the config lock; the next read retries.
+      backupPath: migration.backupPath,
+    });
+  }
+  return config;
+}
+
 async function loadConfiguration(
   repositoryDirectory: string
 ): Promise<{ config: Config; path: string }> {
@@ -148,155 +186,159 @@ async function loadConfiguration(
       `No config found. Create ${paths[0]} (recommended) or ${paths[1]}. See README.`
     );
   }
-  const config = await readConfigFile(configPath);
+  const config = await readConfiguration(configPath);
   return { config, path: configPath };
 }
 
-function getCacheFilePath(repositoryDirectory: string) {
-  return path.join(repositoryDirectory, ".slack_status_cache.json");
-}
+// Cache contents (without updatedAt) as last read from or written to disk.
+let persistedCacheSnapshot: string | undefined;
 
-function parseCache(cachePayload: unknown): Cache {
-  const parsed = cacheSchema.safeParse(cachePayload);
-  if (!parsed.success) {
-    throw new Error("Cache file is corrupted or invalid.");
-  }
-  return parsed.data;
+function serializeCacheContents(cache: Cache) {
+  const { updatedAt: _updatedAt, ...contents } = cache;
+  return JSON.stringify(contents);
 }
 
 async function loadCache(repositoryDirectory: string): Promise<Cache> {
   const filePath = getCacheFilePath(repositoryDirectory);
   try {
     if (!existsSync(filePath)) {
-      return { updatedAt: currentTimestampSeconds() };
+      return { updatedAt: currentTimestampSeconds(), workspaces: {} };
     }
     const rawCacheContent = await readFile(filePath, "utf8");
-    return parseCache(JSON.parse(rawCacheContent));
+    const cache = parseCache(JSON.parse(rawCacheContent));
+    persistedCacheSnapshot = serializeCacheContents(cache);
+    return cache;
   } catch (error) {
     log("WARN", "Cache read failed; starting fresh.", {
       error: error instanceof Error ? error.message : String(error),
     });
-    return { updatedAt: currentTimestampSeconds() };
+    return { updatedAt: currentTimestampSeconds(), workspaces: {} };
   }
 }
 
 async function saveCache(repositoryDirectory: string, cache: Cache) {
+  const snapshot = serializeCacheContents(cache);
+  if (snapshot === persistedCacheSnapshot) return;
   const filePath = getCacheFilePath(repositoryDirectory);
   cache.updatedAt = currentTimestampSeconds();
-  await writeFile(filePath, JSON.stringify(cache, null, 2), "utf8");
+  await writeFileAtomic(filePath, JSON.stringify(cache, null, 2));
+  persistedCacheSnapshot = snapshot;
 }
 
-async function trimLogFile(
-  filePath: string,
-  maxLines: number,
-  keepLines: number
-) {
+async function rotateLog(filePath: string, limits: LogRotationLimits) {
+  heldLogLines = [];
   try {
-    if (!existsSync(filePath)) return;
-    const contents = await readFile(filePath, "utf8");
-    const lines = contents.split("\n");
-    // If file ends with newline, split gives trailing empty.
-    const lineCount =
-      lines[lines.length - 1] === "" ? lines.length - 1 : lines.length;
-    if (lineCount <= maxLines) return;
-
-    const tail =
-      lines.slice(Math.max(0, lineCount - keepLines), lineCount).join("\n") +
-      "\n";
-    await writeFile(filePath, tail, "utf8");
+    // Another updater rotating the same log is left to it.
+    const archivePath = await withFileLock(
+      filePath,
+      () => rotateLogFile(filePath, limits),
+      { timeoutMs: 0 }
+    );
+    if (archivePath) log("INFO", "Log rotated.", { filePath, archivePath });
   } catch (error) {
-    log("WARN", "Log trimming failed (non-fatal)", {
+    if (error instanceof FileLockTimeoutError) return;
+    log("WARN", "Log rotation failed (non-fatal)", {
       filePath,
       error: String(error),
     });
+  } finally {
+    const lines = heldLogLines;
+    heldLogLines = undefined;
+    for (const line of lines) console.log(line);
   }
 }
 
-async function osascript(script: string): Promise<string> {
-  const { stdout } = await executeFileAsync(
-    "/usr/bin/osascript",
-    ["-e", script],
-    {
-      timeout: 10_000,
-    }
-  );
-  return stdout.trim();
+async function createRuntimeSlackClient(
+  workspace: WorkspaceRuntimeConfig,
+  runtimeConfig: RuntimeConfig
+) {
+  // Resolved on every run so rotated tokens are picked up without a restart.
+  const token = await resolveSecret(workspace.slackToken, {
+    baseDirectory: runtimeConfig.secretsBaseDirectory,
+  });
+  return createSlackClient({
+    token,
+    baseUrl: runtimeConfig.slackApiBaseUrl,
+    timeoutMs: runtimeConfig.slackApiTimeoutSeconds * 1000,
+    onRetry: ({ method, attempt, delayMs, error }) => {
+      log("WARN", "Slack API call failed, retrying", {
+        workspace: workspace.name,
+        method,
+        attempt,
+        delayMs,
+        code: error.code,
+        kind: error.kind,
+      });
+    },
+  });
 }
 
-async function isSpotifyRunning(): Promise<boolean> {
-  try {
-    await executeFileAsync("/usr/bin/pgrep", ["Spotify"], { timeout: 3_000 });
-    return true;
-  } catch {
-    return false;
-  }
-}
+// Kept across daemon polls, so the access token is only refreshed when it expires.
+let spotifyWebApiClient:
+  | { settingsKey: string; client: SpotifyWebApiClient }
+  | undefined;
 
-async function getSpotifyState(): Promise<
-  "playing" | "paused" | "stopped" | "unknown"
-> {
-  try {
-    const state = await osascript('tell application "Spotify" to player state');
-    if (state === "playing" || state === "paused" || state === "stopped")
-      return state;
-    return "unknown";
-  } catch {
-    return "unknown";
+async function getSpotifyWebApiClient(
+  settings: SpotifyWebApiSettings,
+  runtimeConfig: RuntimeConfig
+) {
+  const options = {
+    clientId: settings.clientId,
+    clientSecret: await resolveSecret(settings.clientSecret, {
+      baseDirectory: runtimeConfig.secretsBaseDirectory,
+    }),
+    refreshToken: await resolveSecret(settings.refreshToken, {
+      baseDirectory: runtimeConfig.secretsBaseDirectory,
+    }),
+    apiBaseUrl: settings.apiBaseUrl,
+    tokenUrl: settings.tokenUrl,
+  };
+  const settingsKey = JSON.stringify(options);
+  if (spotifyWebApiClient?.settingsKey !== settingsKey) {
+    spotifyWebApiClient = {
+      settingsKey,
+      client: createSpotifyWebApiClient(options),
+    };
   }
+  return spotifyWebApiClient.client;
 }
 
-async function getSpotifyTrack(): Promise<string> {
-  const song = await osascript(
-    'tell application "Spotify" to artist of current track & " - " & name of current track'
-  );
-  return song;
-}
-
-async function callSlackApi<T>(
-  token: string,
-  method: string,
-  body?: Record<string, unknown>
-): Promise<T> {
-  const response = await fetch(`https://slack.com/api/${method}`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json; charset=UTF-8",
-    },
-    body: body ? JSON.stringify(body) : undefined,
-  });
-  const responseText = await response.text();
+// The playlist, album, artist or show the track is played from, or undefined when it
+// is not known. A failure only costs the rules that match on it.
+async function readPlaybackContext(
+  runtimeConfig: RuntimeConfig,
+  track: TrackInfo
+): Promise<string | null | undefined> {
+  const settings = runtimeConfig.spotifyWebApi;
+  if (!settings) return undefined;
   try {
-    return JSON.parse(responseText) as T;
+    const client = await getSpotifyWebApiClient(settings, runtimeConfig);
+    const playback = await client.getPlaybackContext();
+    // Right after a track change the Web API can still report the previous one.
+    if (playback?.trackUri !== track.uri) {
+      log("DEBUG", "Spotify Web API reports another track; context unknown.");
+      return undefined;
+    }
+    return playback.contextUri ?? null;
   } catch (error) {
-    throw new Error(
-      `Slack API ${method} returned non-JSON: ${String(
-        error
-      )} body=${responseText.slice(0, 500)}`
-    );
+    log("WARN", "Spotify playback context could not be read", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
   }
 }
 
-async function getSlackProfileWithRetry(token: string) {
-  const maxAttempts = 3;
-  let lastError: unknown;
-  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-    try {
-      const response = await callSlackApi<SlackProfileGetResponse>(
-        token,
-        "users.profile.get"
-      );
-      return response;
-    } catch (error) {
-      lastError = error;
-      log("WARN", "Slack profile.get failed, retrying", {
-        attempt,
-        error: String(error),
-      });
-      await new Promise((resolve) => setTimeout(resolve, 250 * attempt));
-    }
-  }
-  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+function describeSlackError(error: SlackApiError) {
+  return {
+    method: error.method,
+    code: error.code,
+    kind: error.kind,
+    error: error.message,
+    hint:
+      error instanceof SlackAuthError
+        ? "Check this workspace's slackToken and its users.profile:read/write scopes."
+        : undefined,
+  };
 }
 
 function normalizeEmoji(emoji: string | undefined) {
@@ -307,35 +349,32 @@ function normalizeText(text: string | undefined) {
   return (text ?? "").trim();
 }
 
-function isStatusOwnedByScript(
-  text: string,
-  emoji: string,
-  config: StatusEmojiConfig
-) {
-  const normalizedEmoji = normalizeEmoji(emoji);
-  if (
-    normalizedEmoji === config.statusEmoji ||
-    normalizedEmoji === config.statusEmojiUnicode
-  ) {
-    if (text === "" || text.includes(" - ")) return true;
-  }
-  return false;
-}
-
-type StatusEmojiConfig = {
-  statusEmoji: string;
-  statusEmojiUnicode: string;
+type WorkspaceRuntimeConfig = StatusEmojiConfig & {
+  name: string;
+  slackToken: SecretRef;
+  statusTemplate: string;
+  alwaysOverride: boolean;
+  requireTwoEmptyReadsBeforeOverride: boolean;
 };
 
-type RuntimeConfig = StatusEmojiConfig & {
+type RuntimeConfig = {
+  workspaces: WorkspaceRuntimeConfig[];
+  secretsBaseDirectory: string;
+  playerSource: PlayerSourceKind | "auto";
+  mprisPlayerName: string;
+  spotifyWebApi?: SpotifyWebApiSettings;
+  schedule?: StatusSchedule;
+  privacy?: PrivacyFilter;
+  slackApiBaseUrl: string;
+  slackApiTimeoutSeconds: number;
+  pollIntervalSeconds: number;
+  clearStatusOnExit: boolean;
   statusTtlSeconds: number;
-  alwaysOverride: boolean;
-  logMaxLines: number;
-  logKeepLines: number;
+  logRotation: LogRotationLimits;
+  logFormat: LogFormat;
   stdoutLogPath: string;
   stderrLogPath: string;
   cacheMaxAgeSeconds: number;
-  requireTwoEmptyReadsBeforeOverride: boolean;
   emptyReadConfirmWindowSeconds: number;
 };
 
@@ -343,6 +382,58 @@ function isEmptySlackStatus(text: string, emoji: string) {
   return normalizeText(text) === "" && normalizeEmoji(emoji) === "";
 }
 
+function getRestorableStatus(
+  cache: WorkspaceCache,
+  now: number,
+  cacheMaxAgeSeconds: number
+): { status?: SlackStatus; reason: string } {
+  const cached = cache.lastNonEmptyNonOwned;
+  if (!cached) {
+    return { reason: "no cached non-owned status" };
+  }
+  const cacheAgeSeconds = now - cached.observedAt;
+  if (cacheAgeSeconds > cacheMaxAgeSeconds) {
+    return {
+      reason: `cached status is ${cacheAgeSeconds}s old (max ${cacheMaxAgeSeconds}s)`,
+    };
+  }
+  // Slack uses 0 for statuses that never expire.
+  if (cached.expiration !== 0 && cached.expiration <= now) {
+    return { reason: "cached status has already expired" };
+  }
+  return {
+    status: {
+      text: cached.text,
+      emoji: cached.emoji,
+      expiration: cached.expiration,
+    },
+    reason: "cached status is still valid",
+  };
+}
+
+function recordEmptyRead(
+  cache: WorkspaceCache,
+  isStatusEmpty: boolean,
+  now: number,
+  confirmWindowSeconds: number
+) {
+  if (!isStatusEmpty) {
+    cache.emptyRead = undefined;
+    return 0;
+  }
+  const previous = cache.emptyRead;
+  const isWithinWindow =
+    previous !== undefined && now - previous.lastSeenAt <= confirmWindowSeconds;
+  const consecutiveCount = isWithinWindow ? previous.consecutiveCount + 1 : 1;
+  cache.emptyRead = { lastSeenAt: now, consecutiveCount };
+  return consecutiveCount;
+}
+
+async function clearSlackStatus(slack: SlackClient, cache: WorkspaceCache) {
+  await slack.setStatus({ text: "", emoji: "", expiration: 0 });
+  cache.lastSetByScript = undefined;
+}
+
 function isSafeToOverrideWhenPlayingTrack(
   statusText: string,
   statusEmoji: string
@@ -352,20 +443,54 @@ function isSafeToOverrideWhenPlayingTrack(
   return statusText === "" || statusEmoji === "";
 }
 
-async function main() {
-  const repositoryDirectory = process.cwd();
-  const { config, path: configPath } =
-    await loadConfiguration(repositoryDirectory);
+function buildRuntimeConfig(
+  config: Config,
+  repositoryDirectory: string
+): RuntimeConfig {
+  const statusTemplate = config.statusTemplate ?? DEFAULT_CONFIG.statusTemplate;
+  const statusEmoji = config.statusEmoji ?? DEFAULT_CONFIG.statusEmoji;
+  const statusEmojiUnicode =
+    config.statusEmojiUnicode ?? DEFAULT_CONFIG.statusEmojiUnicode;
+  const emojiRules = config.emojiRules ?? DEFAULT_CONFIG.emojiRules;
+  const alwaysOverride = config.alwaysOverride ?? DEFAULT_CONFIG.alwaysOverride;
+  const requireTwoEmptyReadsBeforeOverride =
+    config.requireTwoEmptyReadsBeforeOverride ??
+    DEFAULT_CONFIG.requireTwoEmptyReadsBeforeOverride;
 
   const runtimeConfig: RuntimeConfig = {
-    statusEmoji: config.statusEmoji ?? DEFAULT_CONFIG.statusEmoji,
-    statusEmojiUnicode:
-      config.statusEmojiUnicode ?? DEFAULT_CONFIG.statusEmojiUnicode,
+    workspaces: getSlackWorkspaces(config).map((workspace) => ({
+      name: workspace.name,
+      slackToken: workspace.slackToken,
+      statusTemplate: workspace.statusTemplate ?? statusTemplate,
+      statusEmoji: workspace.statusEmoji ?? statusEmoji,
+      statusEmojiUnicode: workspace.statusEmojiUnicode ?? statusEmojiUnicode,
+      emojiRules: workspace.emojiRules ?? emojiRules,
+      alwaysOverride: workspace.alwaysOverride ?? alwaysOverride,
+      requireTwoEmptyReadsBeforeOverride:
+        workspace.requireTwoEmptyReadsBeforeOverride ??
+        requireTwoEmptyReadsBeforeOverride,
+    })),
+    secretsBaseDirectory: repositoryDirectory,
+    playerSource: config.playerSource ?? DEFAULT_CONFIG.playerSource,
+    mprisPlayerName: config.mprisPlayerName ?? DEFAULT_CONFIG.mprisPlayerName,
+    spotifyWebApi: config.spotifyWebApi,
+    schedule: config.schedule,
+    privacy: config.privacy,
+    slackApiBaseUrl: config.slackApiBaseUrl ?? DEFAULT_CONFIG.slackApiBaseUrl,
+    slackApiTimeoutSeconds:
+      config.slackApiTimeoutSeconds ?? DEFAULT_CONFIG.slackApiTimeoutSeconds,
+    pollIntervalSeconds:
+      config.pollIntervalSeconds ?? DEFAULT_CONFIG.pollIntervalSeconds,
+    clearStatusOnExit:
+      config.clearStatusOnExit ?? DEFAULT_CONFIG.clearStatusOnExit,
     statusTtlSeconds:
       config.statusTtlSeconds ?? DEFAULT_CONFIG.statusTtlSeconds,
-    alwaysOverride: config.alwaysOverride ?? DEFAULT_CONFIG.alwaysOverride,
-    logMaxLines: config.logMaxLines ?? DEFAULT_CONFIG.logMaxLines,
-    logKeepLines: config.logKeepLines ?? DEFAULT_CONFIG.logKeepLines,
+    logRotation: {
+      maxLines: config.logMaxLines ?? DEFAULT_CONFIG.logMaxLines,
+      maxBytes: config.logMaxBytes ?? DEFAULT_CONFIG.logMaxBytes,
+      maxArchives: config.logMaxArchives ?? DEFAULT_CONFIG.logMaxArchives,
+    },
+    logFormat: config.logFormat ?? DEFAULT_CONFIG.logFormat,
     stdoutLogPath:
       config.stdoutLogPath ??
       path.join(repositoryDirectory, "spotify-status.log"),
@@ -374,76 +499,276 @@ async function main() {
       path.join(repositoryDirectory, "spotify-status.error.log"),
     cacheMaxAgeSeconds:
       config.cacheMaxAgeSeconds ?? DEFAULT_CONFIG.cacheMaxAgeSeconds,
-    requireTwoEmptyReadsBeforeOverride:
-      config.requireTwoEmptyReadsBeforeOverride ??
-      DEFAULT_CONFIG.requireTwoEmptyReadsBeforeOverride,
     emptyReadConfirmWindowSeconds:
       config.emptyReadConfirmWindowSeconds ??
       DEFAULT_CONFIG.emptyReadConfirmWindowSeconds,
   };
+  return runtimeConfig;
+}
 
-  await trimLogFile(
-    runtimeConfig.stdoutLogPath,
-    runtimeConfig.logMaxLines,
-    runtimeConfig.logKeepLines
-  );
-  await trimLogFile(
-    runtimeConfig.stderrLogPath,
-    runtimeConfig.logMaxLines,
-    runtimeConfig.logKeepLines
-  );
+async function rotateLogFiles(runtimeConfig: RuntimeConfig) {
+  await rotateLog(runtimeConfig.stdoutLogPath, runtimeConfig.logRotation);
+  await rotateLog(runtimeConfig.stderrLogPath, runtimeConfig.logRotation);
+}
 
-  log("INFO", chalk.bold("spotify-status-on-slack"), {
-    version: SCRIPT_VERSION,
+type Playback = {
+  running: boolean;
+  state: PlayerState;
+  track?: TrackInfo;
+  privacyDecision: PrivacyDecision;
+};
+
+// Keeps the time a result was first seen, so a steady state does not rewrite the cache every poll.
+function recordWorkspaceResult(
+  cache: WorkspaceCache,
+  result: Omit<WorkspaceResult, "since">
+) {
+  const previous = cache.lastResult;
+  if (
+    previous?.outcome === result.outcome &&
+    previous.message === result.message
+  ) {
+    return;
+  }
+  cache.lastResult = { ...result, since: currentTimestampSeconds() };
+}
+
+// The dashboard shows the last run; failing to record it must not fail the run.
+async function saveLastRun(repositoryDirectory: string, lastRun: LastRun) {
+  try {
+    await writeFileAtomic(
+      getLastRunFilePath(repositoryDirectory),
+      JSON.stringify(lastRun, null, 2)
+    );
+  } catch (error) {
+    log("WARN", "Last run record could not be written.", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+async function runUpdate(
+  repositoryDirectory: string,
+  runtimeConfig: RuntimeConfig,
+  cache: Cache
+) {
+  const lastRun: LastRun = {
+    runId: activeRunId,
+    startedAt: currentTimestampSeconds(),
+    finishedAt: currentTimestampSeconds(),
     pid: process.pid,
-    cwd: repositoryDirectory,
-    configPath,
-  });
+    workspaces: [],
+  };
+  try {
+    await updateWorkspaces(repositoryDirectory, runtimeConfig, cache, lastRun);
+  } catch (error) {
+    lastRun.error = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    lastRun.finishedAt = currentTimestampSeconds();
+    await saveLastRun(repositoryDirectory, lastRun);
+  }
+}
 
-  const cache = await loadCache(repositoryDirectory);
+async function updateWorkspaces(
+  repositoryDirectory: string,
+  runtimeConfig: RuntimeConfig,
+  cache: Cache,
+  lastRun: LastRun
+) {
+  pruneWorkspaceCaches(
+    cache,
+    runtimeConfig.workspaces.map((workspace) => workspace.name)
+  );
+  const player = createPlayerSource(runtimeConfig);
+  const spotifyRunning = await player.isRunning();
+  log("DEBUG", "Spotify running check", {
+    source: player.kind,
+    running: spotifyRunning,
+  });
+  const playerRecord: NonNullable<LastRun["player"]> = {
+    source: player.kind,
+    running: spotifyRunning,
+  };
+  lastRun.player = playerRecord;
 
-  const spotifyRunning = await isSpotifyRunning();
-  log("DEBUG", "Spotify running check", { running: spotifyRunning });
-  if (!spotifyRunning) {
-    log("INFO", "Spotify is not running; exiting (no status change).");
-    return;
+  // Quitting Spotify is handled like stopping it, so the track status it leaves behind is
+  // restored or left to expire the same way.
+  let playerState: PlayerState = "stopped";
+  if (spotifyRunning) {
+    playerState = await player.getState();
+    log("INFO", "Spotify player state", { state: playerState });
+    playerRecord.state = playerState;
+  } else {
+    log("INFO", "Spotify is not running; handling it as stopped.");
   }
 
-  const playerState = await getSpotifyState();
-  log("INFO", "Spotify player state", { state: playerState });
+  let track: TrackInfo | undefined;
+  let privacyDecision: PrivacyDecision = { hidden: false };
+  if (playerState === "playing" || playerState === "paused") {
+    try {
+      track = await player.getTrack();
+      track.contextUri = await readPlaybackContext(runtimeConfig, track);
+      privacyDecision = evaluatePrivacyFilter(runtimeConfig.privacy, track);
+      // Logs are readable through the Config UI, so hidden tracks are never written to them.
+      if (privacyDecision.hidden) {
+        playerRecord.hidden = true;
+        log("INFO", "Spotify current track is hidden by privacy filter", {
+          reason: privacyDecision.reason,
+          entryIndex: privacyDecision.entryIndex,
+          action: privacyDecision.action,
+        });
+      } else {
+        playerRecord.track = {
+          artist: track.artist,
+          title: track.title,
+          album: track.album,
+          uri: track.uri,
+          contextUri: track.contextUri ?? undefined,
+        };
+        log("INFO", "Spotify current track", {
+          artist: track.artist,
+          title: track.title,
+          album: track.album,
+          uri: track.uri,
+          contextUri: track.contextUri,
+          durationSeconds: track.durationSeconds,
+          positionSeconds: track.positionSeconds,
+          playingSince: track.playingSince,
+        });
+      }
+    } catch (error) {
+      log("WARN", "Could not read current track metadata", {
+        error: String(error),
+      });
+    }
+  }
 
-  // Always read Slack status first to decide if we can touch it.
-  const profileResponse = await getSlackProfileWithRetry(config.slackToken);
-  if (!profileResponse.ok) {
-    log(
-      "WARN",
-      "Slack users.profile.get returned ok=false; skipping to avoid overrides",
-      {
-        error: profileResponse.error,
+  // Workspaces are independent: a failure in one is recorded and the others still run.
+  for (const workspace of runtimeConfig.workspaces) {
+    const workspaceCache = getWorkspaceCache(cache, workspace.name);
+    const workspaceRecord: LastRunWorkspace = {
+      name: workspace.name,
+      outcome: "skipped",
+      message: "",
+    };
+    lastRun.workspaces.push(workspaceRecord);
+    try {
+      const result = await updateWorkspaceStatus(
+        runtimeConfig,
+        workspace,
+        workspaceCache,
+        { running: spotifyRunning, state: playerState, track, privacyDecision },
+        workspaceRecord
+      );
+      recordWorkspaceResult(workspaceCache, result);
+      Object.assign(workspaceRecord, result);
+    } catch (error) {
+      if (error instanceof SlackApiError) {
+        log("ERROR", "Slack API call failed; workspace left unchanged.", {
+          workspace: workspace.name,
+          ...describeSlackError(error),
+        });
+      } else if (error instanceof SecretResolutionError) {
+        log("ERROR", "Slack token could not be read; workspace skipped.", {
+          workspace: workspace.name,
+          source: error.source,
+          error: error.message,
+        });
+      } else {
+        log("ERROR", "Workspace update failed", {
+          workspace: workspace.name,
+          error: String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
       }
+      const result = {
+        outcome: "failed",
+        message: error instanceof Error ? error.message : String(error),
+      } as const;
+      recordWorkspaceResult(workspaceCache, result);
+      Object.assign(workspaceRecord, result);
+    }
+    await saveCache(repositoryDirectory, cache);
+  }
+}
+
+async function updateWorkspaceStatus(
+  runtimeConfig: RuntimeConfig,
+  workspace: WorkspaceRuntimeConfig,
+  cache: WorkspaceCache,
+  playback: Playback,
+  // Filled in with what was read and decided, for the last run record.
+  record: LastRunWorkspace
+): Promise<Omit<WorkspaceResult, "since">> {
+  const { track, privacyDecision } = playback;
+  const logWorkspace = (
+    level: LogLevel,
+    message: string,
+    metadata?: Record<string, unknown>
+  ) => log(level, message, { workspace: workspace.name, ...metadata });
+
+  let rawTrackStatusText: string | undefined;
+  if (track && privacyDecision.hidden) {
+    rawTrackStatusText =
+      privacyDecision.action === "substitute"
+        ? privacyDecision.substituteText
+        : undefined;
+  } else if (track) {
+    rawTrackStatusText = renderStatusTemplate(workspace.statusTemplate, {
+      artist: track.artist,
+      title: track.title,
+      album: track.album,
+    });
+  }
+  const trackStatusText = rawTrackStatusText && censorText(rawTrackStatusText);
+
+  // With Spotify closed there is only our own status to restore; once it has been
+  // restored, cleared or has expired, Slack is not read again until Spotify starts.
+  if (
+    !playback.running &&
+    !mayStillHoldScriptStatus(cache.lastSetByScript, currentTimestampSeconds())
+  ) {
+    logWorkspace(
+      "DEBUG",
+      "Spotify is not running and no status of ours is set."
     );
-    return;
+    return { outcome: "skipped", message: "Spotify is not running." };
   }
 
-  const statusText = normalizeText(profileResponse.profile?.status_text);
-  const statusEmoji = normalizeEmoji(profileResponse.profile?.status_emoji);
-  const statusExpiration = profileResponse.profile?.status_expiration ?? 0;
+  // Always read Slack status first to decide if we can touch it.
+  const slack = await createRuntimeSlackClient(workspace, runtimeConfig);
+  const profile = await slack.getProfile();
 
-  const isOwnedByScript = isStatusOwnedByScript(
-    statusText,
-    statusEmoji,
-    runtimeConfig
+  const statusText = normalizeText(profile.status_text);
+  const statusEmoji = normalizeEmoji(profile.status_emoji);
+  const statusExpiration = profile.status_expiration ?? 0;
+
+  const ownership = determineStatusOwnership(
+    { text: statusText, emoji: statusEmoji, expiration: statusExpiration },
+    cache.lastSetByScript,
+    workspace,
+    trackStatusText
   );
+  const isOwnedByScript = ownership.owned;
   const isStatusEmpty = isEmptySlackStatus(statusText, statusEmoji);
   const isSafeToOverride =
     isSafeToOverrideWhenPlayingTrack(statusText, statusEmoji) ||
     isOwnedByScript;
+  record.slackStatus = {
+    text: statusText,
+    emoji: statusEmoji,
+    expiration: statusExpiration,
+  };
+  record.ownership = ownership;
+  record.safeToOverride = isSafeToOverride;
 
-  log("INFO", "Slack current status snapshot", {
+  logWorkspace("INFO", "Slack current status snapshot", {
     statusText,
     statusEmoji,
     statusExpiration,
     ownedByScript: isOwnedByScript,
+    ownershipReason: ownership.reason,
     empty: isStatusEmpty,
     safeToOverrideWhenPlaying: isSafeToOverride,
   });
@@ -457,67 +782,380 @@ async function main() {
       observedAt: currentTimestampSeconds(),
     };
   }
-  await saveCache(repositoryDirectory, cache);
 
-  if (playerState !== "playing") {
-    log(
+  // Slack occasionally returns a transient empty profile; count consecutive empty reads so
+  // a single one is not treated as a truly empty status.
+  const consecutiveEmptyReads = recordEmptyRead(
+    cache,
+    isStatusEmpty,
+    currentTimestampSeconds(),
+    runtimeConfig.emptyReadConfirmWindowSeconds
+  );
+  record.consecutiveEmptyReads = consecutiveEmptyReads;
+  if (isStatusEmpty) {
+    logWorkspace("DEBUG", "Empty Slack status read recorded", {
+      consecutiveCount: consecutiveEmptyReads,
+      confirmWindowSeconds: runtimeConfig.emptyReadConfirmWindowSeconds,
+    });
+  }
+
+  if (playback.state !== "playing") {
+    if (!isOwnedByScript) {
+      logWorkspace(
+        "INFO",
+        "Spotify not playing and status is not ours; no status change."
+      );
+      return {
+        outcome: "skipped",
+        message: "Spotify not playing and status is not ours.",
+      };
+    }
+
+    const restore = getRestorableStatus(
+      cache,
+      currentTimestampSeconds(),
+      runtimeConfig.cacheMaxAgeSeconds
+    );
+    if (!restore.status) {
+      logWorkspace(
+        "INFO",
+        "Spotify not playing; not restoring previous status (status will expire if previously set).",
+        { reason: restore.reason }
+      );
+      return {
+        outcome: "skipped",
+        message: "Spotify not playing; status will expire.",
+      };
+    }
+
+    logWorkspace(
       "INFO",
-      "Spotify not playing; exiting (status will expire if previously set)."
+      "Spotify not playing; restoring previous Slack status",
+      {
+        reason: restore.reason,
+        statusText: restore.status.text,
+        statusEmoji: restore.status.emoji,
+        statusExpiration: restore.status.expiration,
+      }
     );
-    return;
+    await slack.setStatus(restore.status);
+    record.statusAfter = restore.status;
+
+    cache.lastNonEmptyNonOwned = undefined;
+    cache.lastSetByScript = undefined;
+    logWorkspace("INFO", chalk.green("Restored previous status"));
+    return { outcome: "restored", message: "Restored previous status." };
+  }
+
+  const scheduleDecision = getScheduleDecision(runtimeConfig.schedule);
+  if (!scheduleDecision.active) {
+    if (isOwnedByScript && runtimeConfig.schedule?.clearOwnedStatusWhenQuiet) {
+      logWorkspace("INFO", "Quiet hours; clearing track status set by script", {
+        ...scheduleDecision,
+      });
+      await clearSlackStatus(slack, cache);
+      record.statusAfter = { text: "", emoji: "", expiration: 0 };
+      logWorkspace("INFO", chalk.green("Cleared status for quiet hours"));
+      return { outcome: "cleared", message: "Cleared status for quiet hours." };
+    }
+    logWorkspace("INFO", "Quiet hours; not publishing current track.", {
+      ...scheduleDecision,
+    });
+    return { outcome: "skipped", message: "Quiet hours." };
   }
 
   // Guard: only override when it is safe (either field empty) OR the status is owned by this script.
   // If BOTH fields are non-empty and it's not owned, do not override (unless alwaysOverride is enabled).
-  if (!isSafeToOverride && !runtimeConfig.alwaysOverride) {
-    log(
+  if (!isSafeToOverride && !workspace.alwaysOverride) {
+    logWorkspace(
       "WARN",
       "Skipping update because Slack status appears set by another app/user (both text and emoji are non-empty)."
     );
-    return;
+    return {
+      outcome: "skipped",
+      message: "Status is set by another app or user.",
+    };
   }
 
-  const rawTrackName = await getSpotifyTrack();
-  const censoredTrackName = censorText(rawTrackName);
+  if (
+    isStatusEmpty &&
+    workspace.requireTwoEmptyReadsBeforeOverride &&
+    !workspace.alwaysOverride &&
+    consecutiveEmptyReads < 2
+  ) {
+    logWorkspace(
+      "INFO",
+      "Skipping update until a second empty Slack status read confirms the status is really empty.",
+      {
+        consecutiveCount: consecutiveEmptyReads,
+        confirmWindowSeconds: runtimeConfig.emptyReadConfirmWindowSeconds,
+      }
+    );
+    return {
+      outcome: "skipped",
+      message: "Waiting for a second empty status read.",
+    };
+  }
+
+  if (privacyDecision.hidden && privacyDecision.action === "skip") {
+    logWorkspace(
+      "INFO",
+      "Skipping update because the current track is hidden by privacy filter.",
+      { reason: privacyDecision.reason }
+    );
+    return {
+      outcome: "skipped",
+      message: "Current track is hidden by privacy filter.",
+    };
+  }
+
+  if (!track || !rawTrackStatusText || !trackStatusText) {
+    logWorkspace("WARN", "No track metadata available; skipping update.");
+    return { outcome: "skipped", message: "No track metadata available." };
+  }
+
+  // Emoji rules could give away a hidden track, so substituted statuses use the default emoji.
+  const { emoji: trackStatusEmoji, ruleIndex: emojiRuleIndex } =
+    privacyDecision.hidden
+      ? { emoji: workspace.statusEmoji, ruleIndex: undefined }
+      : selectStatusEmoji(workspace.emojiRules, track, workspace.statusEmoji);
   const expirationEpoch =
     currentTimestampSeconds() + runtimeConfig.statusTtlSeconds;
-  log("INFO", "Updating Slack status to current track", {
-    rawTrack: rawTrackName,
-    track: censoredTrackName,
-    censored: rawTrackName !== censoredTrackName,
-    expirationEpoch,
+  logWorkspace(
+    "INFO",
+    "Updating Slack status to current track",
+    privacyDecision.hidden
+      ? {
+          track: trackStatusText,
+          hidden: true,
+          reason: privacyDecision.reason,
+          emoji: trackStatusEmoji,
+          expirationEpoch,
+        }
+      : {
+          rawTrack: rawTrackStatusText,
+          track: trackStatusText,
+          censored: rawTrackStatusText !== trackStatusText,
+          uri: track.uri,
+          emoji: trackStatusEmoji,
+          emojiRuleIndex,
+          expirationEpoch,
+        }
+  );
+
+  await slack.setStatus({
+    text: trackStatusText,
+    emoji: trackStatusEmoji,
+    expiration: expirationEpoch,
   });
 
-  const setResponse = await callSlackApi<{ ok: boolean; error?: string }>(
-    config.slackToken,
-    "users.profile.set",
-    {
-      profile: {
-        status_text: censoredTrackName,
-        status_emoji: runtimeConfig.statusEmoji,
-        status_expiration: expirationEpoch,
-      },
-    }
+  cache.lastSetByScript = {
+    text: trackStatusText,
+    emoji: trackStatusEmoji,
+    expiration: expirationEpoch,
+    setAt: currentTimestampSeconds(),
+  };
+  record.statusAfter = {
+    text: trackStatusText,
+    emoji: trackStatusEmoji,
+    expiration: expirationEpoch,
+  };
+  logWorkspace("INFO", chalk.green("Done"));
+  return { outcome: "updated", message: `Set status to "${trackStatusText}".` };
+}
+
+async function main() {
+  // A one-off run is a single update, so every line of the process shares its id.
+  activeRunId = createRunId();
+  const repositoryDirectory = process.cwd();
+  const { config, path: configPath } = await loadConfiguration(
+    repositoryDirectory
   );
+  const runtimeConfig = buildRuntimeConfig(config, repositoryDirectory);
+  logFormat = runtimeConfig.logFormat;
+
+  await rotateLogFiles(runtimeConfig);
+
+  log("INFO", chalk.bold("spotify-status-on-slack"), {
+    version: SCRIPT_VERSION,
+    pid: process.pid,
+    cwd: repositoryDirectory,
+    configPath,
+    workspaces: runtimeConfig.workspaces.map((workspace) => workspace.name),
+  });
 
-  if (!setResponse.ok) {
-    log("ERROR", "Slack users.profile.set failed", {
-      error: setResponse.error,
+  // Overlapping runs would each save their own view of the cache; the later one skips.
+  try {
+    await withFileLock(getCacheFilePath(repositoryDirectory), async () => {
+      const cache = await loadCache(repositoryDirectory);
+      await runUpdate(repositoryDirectory, runtimeConfig, cache);
+    });
+  } catch (error) {
+    if (!(error instanceof FileLockTimeoutError)) throw error;
+    log("WARN", "Another run is updating the cache; skipping this run.", {
+      lockPath: error.lockPath,
+    });
+  }
+}
+
+function getFileModifiedTime(filePath: string) {
+  try {
+    return statSync(filePath).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
+
+async function clearOwnedStatusOnExit(
+  workspace: WorkspaceRuntimeConfig,
+  runtimeConfig: RuntimeConfig,
+  cache: WorkspaceCache
+) {
+  const slack = await createRuntimeSlackClient(workspace, runtimeConfig);
+  const profile = await slack.getProfile();
+
+  const statusText = normalizeText(profile.status_text);
+  const statusEmoji = normalizeEmoji(profile.status_emoji);
+  const statusExpiration = profile.status_expiration ?? 0;
+  const ownership = determineStatusOwnership(
+    { text: statusText, emoji: statusEmoji, expiration: statusExpiration },
+    cache.lastSetByScript,
+    workspace,
+    undefined
+  );
+  if (!ownership.owned) {
+    log("INFO", "Slack status is not ours; leaving it untouched on exit.", {
+      workspace: workspace.name,
+      reason: ownership.reason,
     });
     return;
   }
 
-  cache.lastSetByScript = {
-    text: censoredTrackName,
-    emoji: runtimeConfig.statusEmoji,
-    expiration: expirationEpoch,
-    setAt: currentTimestampSeconds(),
+  await clearSlackStatus(slack, cache);
+  recordWorkspaceResult(cache, {
+    outcome: "cleared",
+    message: "Cleared status on exit.",
+  });
+  log("INFO", "Cleared Slack status on exit.", { workspace: workspace.name });
+}
+
+async function runDaemon() {
+  const repositoryDirectory = process.cwd();
+  const loaded = await loadConfiguration(repositoryDirectory);
+  const configPath = loaded.path;
+  let runtimeConfig = buildRuntimeConfig(loaded.config, repositoryDirectory);
+  logFormat = runtimeConfig.logFormat;
+  let configModifiedAt = getFileModifiedTime(configPath);
+
+  await rotateLogFiles(runtimeConfig);
+
+  log("INFO", chalk.bold("spotify-status-on-slack"), {
+    version: SCRIPT_VERSION,
+    mode: "daemon",
+    pid: process.pid,
+    cwd: repositoryDirectory,
+    configPath,
+    pollIntervalSeconds: runtimeConfig.pollIntervalSeconds,
+    workspaces: runtimeConfig.workspaces.map((workspace) => workspace.name),
+  });
+
+  const cacheFilePath = getCacheFilePath(repositoryDirectory);
+  const cache = await withFileLock(cacheFilePath, () =>
+    loadCache(repositoryDirectory)
+  );
+
+  let isStopping = false;
+  let wakeUp: (() => void) | undefined;
+  const requestShutdown = (signal: NodeJS.Signals) => {
+    if (isStopping) return;
+    log("INFO", "Shutdown requested; finishing current run.", { signal });
+    isStopping = true;
+    wakeUp?.();
   };
-  await saveCache(repositoryDirectory, cache);
-  log("INFO", chalk.green("Done"));
+  process.on("SIGINT", requestShutdown);
+  process.on("SIGTERM", requestShutdown);
+
+  while (!isStopping) {
+    activeRunId = createRunId();
+    const modifiedAt = getFileModifiedTime(configPath);
+    if (modifiedAt !== configModifiedAt) {
+      configModifiedAt = modifiedAt;
+      try {
+        runtimeConfig = buildRuntimeConfig(
+          await readConfiguration(configPath),
+          repositoryDirectory
+        );
+        logFormat = runtimeConfig.logFormat;
+        log("INFO", "Config file changed; reloaded.", {
+          configPath,
+          pollIntervalSeconds: runtimeConfig.pollIntervalSeconds,
+        });
+      } catch (error) {
+        log("WARN", "Config reload failed; keeping previous config.", {
+          configPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    await rotateLogFiles(runtimeConfig);
+
+    try {
+      await withFileLock(cacheFilePath, () =>
+        runUpdate(repositoryDirectory, runtimeConfig, cache)
+      );
+    } catch (error) {
+      if (error instanceof FileLockTimeoutError) {
+        log("WARN", "Another run is updating the cache; skipping this poll.", {
+          lockPath: error.lockPath,
+        });
+      } else {
+        log("ERROR", "Update failed; retrying on next poll.", {
+          error: String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      }
+    }
+
+    activeRunId = undefined;
+    if (isStopping) break;
+    // A zero interval would spin; poll at most once per second.
+    const intervalMs = Math.max(1, runtimeConfig.pollIntervalSeconds) * 1000;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, intervalMs);
+      wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    wakeUp = undefined;
+  }
+
+  if (runtimeConfig.clearStatusOnExit) {
+    for (const workspace of runtimeConfig.workspaces) {
+      try {
+        await clearOwnedStatusOnExit(
+          workspace,
+          runtimeConfig,
+          getWorkspaceCache(cache, workspace.name)
+        );
+      } catch (error) {
+        log("ERROR", "Clearing status on exit failed", {
+          workspace: workspace.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    await withFileLock(cacheFilePath, () =>
+      saveCache(repositoryDirectory, cache)
+    );
+  }
+  log("INFO", "Daemon stopped.");
 }
 
-main().catch(async (e) => {
+const isDaemonMode = process.argv.includes("--daemon");
+
+(isDaemonMode ? runDaemon() : main()).catch(async (e) => {
   log("ERROR", "Fatal error", {
     error: String(e),
     stack: e instanceof Error ? e.stack : undefined,
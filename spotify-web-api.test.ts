@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  SpotifyWebApiError,
+  createSpotifyWebApiClient,
+} from "./spotify-web-api";
+
+type StandIn = {
+  tokenRequests: URLSearchParams[];
+  playing: () => Response;
+};
+
+let server: ReturnType<typeof Bun.serve> | undefined;
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+function startStandIn(playing: () => Response) {
+  const standIn: StandIn = { tokenRequests: [], playing };
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname === "/token") {
+        standIn.tokenRequests.push(new URLSearchParams(await request.text()));
+        if (
+          request.headers.get("authorization") !== `Basic ${btoa("id:secret")}`
+        ) {
+          return Response.json({ error: "invalid_client" }, { status: 400 });
+        }
+        return Response.json({
+          access_token: `access-${standIn.tokenRequests.length}`,
+          expires_in: 3600,
+        });
+      }
+      return standIn.playing();
+    },
+  });
+  const client = createSpotifyWebApiClient({
+    clientId: "id",
+    clientSecret: "secret",
+    refreshToken: "refresh",
+    apiBaseUrl: `http://localhost:${server.port}/v1`,
+    tokenUrl: `http://localhost:${server.port}/token`,
+  });
+  return { standIn, client };
+}
+
+describe("createSpotifyWebApiClient", () => {
+  test("reads the track and what it is played from", async () => {
+    const { standIn, client } = startStandIn(() =>
+      Response.json({
+        item: { uri: "spotify:track:1" },
+        context: { uri: "spotify:playlist:2" },
+      })
+    );
+    expect(await client.getPlaybackContext()).toEqual({
+      trackUri: "spotify:track:1",
+      contextUri: "spotify:playlist:2",
+    });
+    await client.getPlaybackContext();
+    // The access token is kept between calls.
+    expect(standIn.tokenRequests).toHaveLength(1);
+    expect(standIn.tokenRequests[0].get("refresh_token")).toBe("refresh");
+  });
+
+  test("reports nothing playing and a missing context", async () => {
+    let status = 204;
+    const { client } = startStandIn(() =>
+      status === 204
+        ? new Response(null, { status })
+        : Response.json({ item: { uri: "spotify:track:1" }, context: null })
+    );
+    expect(await client.getPlaybackContext()).toBeUndefined();
+    status = 200;
+    expect(await client.getPlaybackContext()).toEqual({
+      trackUri: "spotify:track:1",
+      contextUri: undefined,
+    });
+  });
+
+  test("refreshes a rejected access token once", async () => {
+    let calls = 0;
+    const { standIn, client } = startStandIn(() => {
+      calls += 1;
+      return calls === 1
+        ? new Response(null, { status: 401 })
+        : Response.json({ item: { uri: "spotify:track:1" } });
+    });
+    expect((await client.getPlaybackContext())?.trackUri).toBe(
+      "spotify:track:1"
+    );
+    expect(standIn.tokenRequests).toHaveLength(2);
+  });
+
+  test("fails with the HTTP status", async () => {
+    const { client } = startStandIn(() => new Response(null, { status: 503 }));
+    const error = await client.getPlaybackContext().catch((caught) => caught);
+    expect(error).toBeInstanceOf(SpotifyWebApiError);
+    expect(error.status).toBe(503);
+  });
+});
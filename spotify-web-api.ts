@@ -0,0 +1,171 @@
+import { z } from "zod";
+
+export const DEFAULT_SPOTIFY_API_BASE_URL = "https://api.spotify.com/v1";
+export const DEFAULT_SPOTIFY_TOKEN_URL =
+  "https://accounts.spotify.com/api/token";
+
+// Scope the refresh token must have been granted.
+export const SPOTIFY_WEB_API_SCOPES = ["user-read-currently-playing"];
+
+// What the desktop player cannot tell: the playlist, album, artist or show the track is
+// played from. The AppleScript and MPRIS sources only report the track itself.
+export type PlaybackContext = {
+  trackUri?: string;
+  contextUri?: string; // undefined when played from search, a queue or the like
+};
+
+export class SpotifyWebApiError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "SpotifyWebApiError";
+    this.status = status;
+  }
+}
+
+export type SpotifyWebApiOptions = {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  apiBaseUrl?: string;
+  tokenUrl?: string;
+  timeoutMs?: number;
+};
+
+export type SpotifyWebApiClient = {
+  // undefined when nothing is playing on the account.
+  getPlaybackContext(): Promise<PlaybackContext | undefined>;
+};
+
+const tokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  expires_in: z.number().positive(),
+  refresh_token: z.string().min(1).optional(),
+});
+
+const tokenErrorSchema = z.object({ error: z.string() });
+
+const currentlyPlayingSchema = z.object({
+  item: z.object({ uri: z.string() }).nullish(),
+  context: z.object({ uri: z.string() }).nullish(),
+});
+
+// Refreshed this long before Spotify says the access token expires.
+const ACCESS_TOKEN_MARGIN_MS = 60_000;
+
+// Keeps the access token between calls, so a daemon only refreshes it once an hour.
+export function createSpotifyWebApiClient(
+  options: SpotifyWebApiOptions
+): SpotifyWebApiClient {
+  const apiBaseUrl = (
+    options.apiBaseUrl ?? DEFAULT_SPOTIFY_API_BASE_URL
+  ).replace(/\/+$/, "");
+  const tokenUrl = options.tokenUrl ?? DEFAULT_SPOTIFY_TOKEN_URL;
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  let refreshToken = options.refreshToken;
+  let accessToken: { value: string; expiresAt: number } | undefined;
+
+  async function request(url: string, init: RequestInit, what: string) {
+    try {
+      return await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new SpotifyWebApiError(
+          `Spotify ${what} timed out after ${timeoutMs}ms.`
+        );
+      }
+      throw new SpotifyWebApiError(
+        `Spotify ${what} request failed: ${String(error)}`
+      );
+    }
+  }
+
+  async function getAccessToken() {
+    if (accessToken && accessToken.expiresAt > Date.now()) {
+      return accessToken.value;
+    }
+    const credentials = Buffer.from(
+      `${options.clientId}:${options.clientSecret}`
+    ).toString("base64");
+    const response = await request(
+      tokenUrl,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          grant_type: "refresh_token",
+          refresh_token: refreshToken,
+        }),
+      },
+      "token refresh"
+    );
+    const payload: unknown = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      // Only the error code: the response may echo the credentials.
+      const parsedError = tokenErrorSchema.safeParse(payload);
+      throw new SpotifyWebApiError(
+        `Spotify token refresh failed (HTTP ${response.status}): ${
+          parsedError.success ? parsedError.data.error : "unknown_error"
+        }.`,
+        response.status
+      );
+    }
+    const parsed = tokenResponseSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new SpotifyWebApiError(
+        "Spotify token refresh returned an unexpected response."
+      );
+    }
+    // Spotify may hand out a new refresh token along with the access token.
+    if (parsed.data.refresh_token) refreshToken = parsed.data.refresh_token;
+    accessToken = {
+      value: parsed.data.access_token,
+      expiresAt:
+        Date.now() + parsed.data.expires_in * 1000 - ACCESS_TOKEN_MARGIN_MS,
+    };
+    return accessToken.value;
+  }
+
+  return {
+    async getPlaybackContext() {
+      for (let attempt = 1; ; attempt += 1) {
+        const response = await request(
+          `${apiBaseUrl}/me/player/currently-playing?additional_types=episode`,
+          { headers: { Authorization: `Bearer ${await getAccessToken()}` } },
+          "currently-playing"
+        );
+        // The access token was revoked or expired early; refresh it once.
+        if (response.status === 401 && attempt === 1) {
+          accessToken = undefined;
+          continue;
+        }
+        if (response.status === 204) return undefined;
+        if (!response.ok) {
+          throw new SpotifyWebApiError(
+            `Spotify currently-playing failed (HTTP ${response.status}).`,
+            response.status
+          );
+        }
+        const parsed = currentlyPlayingSchema.safeParse(
+          await response.json().catch(() => undefined)
+        );
+        if (!parsed.success) {
+          throw new SpotifyWebApiError(
+            "Spotify currently-playing returned an unexpected response."
+          );
+        }
+        return {
+          trackUri: parsed.data.item?.uri,
+          contextUri: parsed.data.context?.uri,
+        };
+      }
+    },
+  };
+}
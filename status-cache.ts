@@ -0,0 +1,149 @@
+import path from "node:path";
+import { z } from "zod";
+import { DEFAULT_WORKSPACE_NAME } from "./config-schema";
+
+export type WorkspaceOutcome =
+  | "updated"
+  | "restored"
+  | "cleared"
+  | "skipped"
+  | "failed";
+
+export type WorkspaceResult = {
+  outcome: WorkspaceOutcome;
+  message: string;
+  since: number; // epoch seconds; first run that produced this result
+};
+
+export type WorkspaceCache = {
+  lastNonEmptyNonOwned?: {
+    text: string;
+    emoji: string;
+    expiration: number;
+    observedAt: number;
+  };
+  emptyRead?: {
+    lastSeenAt: number;
+    consecutiveCount: number;
+  };
+  lastSetByScript?: {
+    text: string;
+    emoji: string;
+    expiration: number;
+    setAt: number;
+  };
+  lastResult?: WorkspaceResult;
+};
+
+export type Cache = {
+  updatedAt: number; // epoch seconds
+  workspaces: Record<string, WorkspaceCache>;
+};
+
+const workspaceCacheSchema: z.ZodType<WorkspaceCache> = z
+  .object({
+    lastNonEmptyNonOwned: z
+      .object({
+        text: z.string(),
+        emoji: z.string(),
+        expiration: z.number().finite().min(0),
+        observedAt: z.number().finite().min(0),
+      })
+      .optional(),
+    emptyRead: z
+      .object({
+        lastSeenAt: z.number().finite().min(0),
+        consecutiveCount: z.number().int().min(0),
+      })
+      .optional(),
+    lastSetByScript: z
+      .object({
+        text: z.string(),
+        emoji: z.string(),
+        expiration: z.number().finite().min(0),
+        setAt: z.number().finite().min(0),
+      })
+      .optional(),
+    lastResult: z
+      .object({
+        outcome: z.enum([
+          "updated",
+          "restored",
+          "cleared",
+          "skipped",
+          "failed",
+        ]),
+        message: z.string(),
+        since: z.number().finite().min(0),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+const LEGACY_WORKSPACE_KEYS = [
+  "lastNonEmptyNonOwned",
+  "emptyRead",
+  "lastSetByScript",
+] as const;
+
+// Caches written before workspaces existed kept a single workspace's state at the
+// top level; it belongs to the workspace of the top-level slackToken.
+function migrateLegacyCache(payload: unknown) {
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    "workspaces" in payload
+  ) {
+    return payload;
+  }
+  const legacy = payload as Record<string, unknown>;
+  const workspace: Record<string, unknown> = {};
+  const rest: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(legacy)) {
+    if ((LEGACY_WORKSPACE_KEYS as readonly string[]).includes(key)) {
+      workspace[key] = value;
+    } else {
+      rest[key] = value;
+    }
+  }
+  return { ...rest, workspaces: { [DEFAULT_WORKSPACE_NAME]: workspace } };
+}
+
+const cacheSchema: z.ZodType<Cache, z.ZodTypeDef, unknown> = z.preprocess(
+  migrateLegacyCache,
+  z
+    .object({
+      updatedAt: z.number().finite().min(0),
+      workspaces: z.record(workspaceCacheSchema),
+    })
+    .passthrough()
+);
+
+export function getCacheFilePath(repositoryDirectory: string) {
+  return path.join(repositoryDirectory, ".slack_status_cache.json");
+}
+
+// Rewritten after every run; see last-run.ts.
+export function getLastRunFilePath(repositoryDirectory: string) {
+  return path.join(repositoryDirectory, ".slack_status_last_run.json");
+}
+
+export function parseCache(cachePayload: unknown): Cache {
+  const parsed = cacheSchema.safeParse(cachePayload);
+  if (!parsed.success) {
+    throw new Error("Cache file is corrupted or invalid.");
+  }
+  return parsed.data;
+}
+
+export function getWorkspaceCache(cache: Cache, workspaceName: string) {
+  cache.workspaces[workspaceName] ??= {};
+  return cache.workspaces[workspaceName];
+}
+
+// Drops the state of workspaces that were removed from the config.
+export function pruneWorkspaceCaches(cache: Cache, workspaceNames: string[]) {
+  for (const name of Object.keys(cache.workspaces)) {
+    if (!workspaceNames.includes(name)) delete cache.workspaces[name];
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import {
+  determineStatusOwnership,
+  mayStillHoldScriptStatus,
+} from "./status-ownership";
+
+const config = {
+  statusEmoji: ":musical_note:",
+  statusEmojiUnicode: "🎵",
+  emojiRules: [{ emoji: ":guitar:" }],
+};
+
+const trackStatus = {
+  text: "Queen - Under Pressure",
+  emoji: ":guitar:",
+  expiration: 1_792_000_300,
+};
+
+describe("determineStatusOwnership", () => {
+  test("owns exactly the last status it set", () => {
+    const lastSetByScript = { ...trackStatus, setAt: 1_792_000_000 };
+    expect(
+      determineStatusOwnership(trackStatus, lastSetByScript, config, undefined)
+        .owned
+    ).toBe(true);
+    expect(
+      determineStatusOwnership(
+        { ...trackStatus, expiration: 0 },
+        lastSetByScript,
+        config,
+        undefined
+      ).owned
+    ).toBe(false);
+  });
+
+  test("without a record, owns our emoji with the current track text", () => {
+    expect(
+      determineStatusOwnership(trackStatus, undefined, config, trackStatus.text)
+        .owned
+    ).toBe(true);
+    expect(
+      determineStatusOwnership(trackStatus, undefined, config, "Other - Song")
+        .owned
+    ).toBe(false);
+  });
+
+  test("without a record, owns our emoji without text", () => {
+    expect(
+      determineStatusOwnership(
+        { text: "", emoji: "🎵", expiration: 0 },
+        undefined,
+        config,
+        undefined
+      ).owned
+    ).toBe(true);
+  });
+
+  test("never owns a status with another emoji", () => {
+    expect(
+      determineStatusOwnership(
+        { ...trackStatus, emoji: ":calendar:" },
+        undefined,
+        config,
+        trackStatus.text
+      ).owned
+    ).toBe(false);
+  });
+});
+
+describe("mayStillHoldScriptStatus", () => {
+  const lastSetByScript = { ...trackStatus, setAt: 1_792_000_000 };
+
+  test("is false without a status set by the script", () => {
+    expect(mayStillHoldScriptStatus(undefined, 1_792_000_100)).toBe(false);
+  });
+
+  test("is true until the status expires", () => {
+    expect(mayStillHoldScriptStatus(lastSetByScript, 1_792_000_100)).toBe(true);
+    expect(mayStillHoldScriptStatus(lastSetByScript, 1_792_000_300)).toBe(
+      false
+    );
+    expect(
+      mayStillHoldScriptStatus(
+        { ...lastSetByScript, expiration: 0 },
+        1_792_000_300
+      )
+    ).toBe(true);
+  });
+});
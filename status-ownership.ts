@@ -0,0 +1,68 @@
+import type { EmojiRule } from "./config-schema";
+import { getScriptStatusEmojis } from "./emoji-rules";
+import type { WorkspaceCache } from "./status-cache";
+
+export type SlackStatus = {
+  text: string;
+  emoji: string;
+  expiration: number;
+};
+
+// Ownership is decided by comparing with the last status this script wrote; the emoji/text
+// heuristic is only used when the cache has no record of it (first run, cache reset).
+export function determineStatusOwnership(
+  status: SlackStatus,
+  lastSetByScript: WorkspaceCache["lastSetByScript"],
+  config: StatusEmojiConfig,
+  trackStatusText: string | undefined
+): { owned: boolean; reason: string } {
+  if (lastSetByScript) {
+    if (
+      status.text === lastSetByScript.text &&
+      status.emoji === lastSetByScript.emoji &&
+      status.expiration === lastSetByScript.expiration
+    ) {
+      return { owned: true, reason: "matches last status set by script" };
+    }
+    return { owned: false, reason: "differs from last status set by script" };
+  }
+
+  if (!getScriptStatusEmojis(config).has(status.emoji.trim())) {
+    return {
+      owned: false,
+      reason: "no cached status set by script; emoji is not one of ours",
+    };
+  }
+  if (status.text === "") {
+    return {
+      owned: true,
+      reason: "no cached status set by script; our emoji without text",
+    };
+  }
+  if (trackStatusText !== undefined && status.text === trackStatusText) {
+    return {
+      owned: true,
+      reason:
+        "no cached status set by script; our emoji with current track text",
+    };
+  }
+  return {
+    owned: false,
+    reason: "no cached status set by script; text does not match current track",
+  };
+}
+
+// Whether a status this script wrote may still be on Slack. Expiration 0 never expires.
+export function mayStillHoldScriptStatus(
+  lastSetByScript: WorkspaceCache["lastSetByScript"],
+  now: number
+) {
+  if (!lastSetByScript) return false;
+  return lastSetByScript.expiration === 0 || lastSetByScript.expiration > now;
+}
+
+export type StatusEmojiConfig = {
+  statusEmoji: string;
+  statusEmojiUnicode: string;
+  emojiRules: EmojiRule[];
+};
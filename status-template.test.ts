@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import {
+  renderStatusTemplate,
+  validateStatusTemplate,
+} from "./status-template";
+
+const fields = {
+  artist: "Daft Punk",
+  title: "One More Time",
+  album: "Discovery",
+};
+
+describe("validateStatusTemplate", () => {
+  test("accepts known placeholders", () => {
+    expect(validateStatusTemplate("{title} · {artist}")).toBeUndefined();
+  });
+
+  test("rejects unknown placeholders", () => {
+    expect(validateStatusTemplate("{song}")).toContain("Unknown placeholder");
+  });
+
+  test("requires at least one placeholder", () => {
+    expect(validateStatusTemplate("Listening")).toContain("Must contain");
+  });
+});
+
+describe("renderStatusTemplate", () => {
+  test("fills placeholders", () => {
+    expect(renderStatusTemplate("{artist} - {title}", fields)).toBe(
+      "Daft Punk - One More Time"
+    );
+  });
+
+  test("drops separators left by an empty placeholder", () => {
+    expect(
+      renderStatusTemplate("{artist} - {title}", { ...fields, artist: "" })
+    ).toBe("One More Time");
+  });
+
+  test("keeps one separator between values around an empty placeholder", () => {
+    const template = "{title} - {album} - {artist}";
+    expect(renderStatusTemplate(template, { ...fields, album: "" })).toBe(
+      "One More Time - Daft Punk"
+    );
+    expect(
+      renderStatusTemplate(template, { ...fields, album: "", artist: "" })
+    ).toBe("One More Time");
+  });
+
+  test("keeps emoji shortcodes at either end", () => {
+    expect(renderStatusTemplate(":notes: {title}", fields)).toBe(
+      ":notes: One More Time"
+    );
+    expect(
+      renderStatusTemplate("{artist} - {title} :notes:", {
+        ...fields,
+        artist: "",
+      })
+    ).toBe("One More Time :notes:");
+  });
+
+  test("drops featured artists before anything else", () => {
+    expect(
+      renderStatusTemplate(
+        "{title}",
+        { ...fields, title: "Song Title (feat. Somebody Else)" },
+        20
+      )
+    ).toBe("Song Title");
+  });
+
+  test("drops version suffixes next", () => {
+    expect(
+      renderStatusTemplate(
+        "{title}",
+        { ...fields, title: "Song Title - Remastered 2011" },
+        20
+      )
+    ).toBe("Song Title");
+  });
+
+  test("falls back to an ellipsis at a word boundary", () => {
+    const rendered = renderStatusTemplate(
+      "{title}",
+      { ...fields, title: "A very long title that does not fit at all" },
+      20
+    );
+    expect(rendered).toBe("A very long title…");
+    expect(Array.from(rendered).length).toBeLessThanOrEqual(20);
+  });
+
+  test("counts code points, not UTF-16 units", () => {
+    expect(renderStatusTemplate("🎶 {title}", fields, 15)).toBe(
+      "🎶 One More Time"
+    );
+  });
+});
@@ -0,0 +1,168 @@
+// Slack rejects users.profile.set when status_text is longer than this.
+export const SLACK_STATUS_TEXT_MAX_LENGTH = 100;
+
+export const STATUS_TEMPLATE_PLACEHOLDERS = [
+  "artist",
+  "title",
+  "album",
+] as const;
+
+export type StatusTemplatePlaceholder =
+  (typeof STATUS_TEMPLATE_PLACEHOLDERS)[number];
+
+export type StatusTemplateFields = Record<StatusTemplatePlaceholder, string>;
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+const ELLIPSIS = "…";
+
+// A separator character. A colon only counts when it does not open or close an emoji
+// shortcode, so ":notes: {title}" keeps its emoji.
+const SEPARATOR = String.raw`(?:[\s\-–—·|,]|(?<!:[\w+-]+):(?![\w+-]+:))`;
+
+// Stands in for an empty placeholder until the separators around it are dropped.
+const EMPTY_PLACEHOLDER = "\u0000";
+
+// An empty placeholder with the separators on either side, e.g. " - " when there is no
+// artist.
+const EMPTY_PLACEHOLDER_WITH_SEPARATORS = new RegExp(
+  `(${SEPARATOR}*)${EMPTY_PLACEHOLDER}${SEPARATOR}*`,
+  "g"
+);
+
+// Neighbouring empty placeholders are dropped as one.
+const EMPTY_PLACEHOLDER_RUN = new RegExp(
+  `${EMPTY_PLACEHOLDER}(?:${SEPARATOR}*${EMPTY_PLACEHOLDER})+`,
+  "g"
+);
+
+const TRAILING_SEPARATORS = new RegExp(`${SEPARATOR}+$`);
+
+const FEATURED_ARTIST_SUFFIXES = [
+  /\s*[([](?:feat\.?|ft\.?|featuring|with)\s[^)\]]*[)\]]\s*$/i,
+  /\s+(?:feat\.?|ft\.?|featuring)\s.*$/i,
+];
+
+const VERSION_SUFFIXES = [
+  /\s*[([][^)\]]*\b(?:remix|mix|edit|version|remaster(?:ed)?|live|mono|stereo|demo)\b[^)\]]*[)\]]\s*$/i,
+  /\s+[-–—]\s+[^-–—]*\b(?:remix|mix|edit|version|remaster(?:ed)?|live|mono|stereo|demo)\b[^-–—]*$/i,
+];
+
+function isStatusTemplatePlaceholder(
+  name: string
+): name is StatusTemplatePlaceholder {
+  return (STATUS_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+}
+
+export function getTemplatePlaceholders(template: string) {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) =>
+    match[1].trim()
+  );
+}
+
+// Returns a human readable problem with the template, or undefined when it is usable.
+export function validateStatusTemplate(template: string): string | undefined {
+  const placeholders = getTemplatePlaceholders(template);
+  const unknownPlaceholders = placeholders.filter(
+    (name) => !isStatusTemplatePlaceholder(name)
+  );
+  const allowed = STATUS_TEMPLATE_PLACEHOLDERS.map((name) => `{${name}}`).join(
+    ", "
+  );
+  if (unknownPlaceholders.length > 0) {
+    return `Unknown placeholder ${unknownPlaceholders
+      .map((name) => `{${name}}`)
+      .join(", ")}. Use ${allowed}.`;
+  }
+  if (placeholders.length === 0) {
+    return `Must contain at least one of ${allowed}.`;
+  }
+  return undefined;
+}
+
+function fillTemplate(template: string, fields: StatusTemplateFields) {
+  return (
+    template
+      .replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+        const trimmedName = name.trim();
+        const value = isStatusTemplatePlaceholder(trimmedName)
+          ? fields[trimmedName].trim()
+          : "";
+        return value || EMPTY_PLACEHOLDER;
+      })
+      .replace(EMPTY_PLACEHOLDER_RUN, EMPTY_PLACEHOLDER)
+      // Between two values one separator is kept; at either end none is.
+      .replace(
+        EMPTY_PLACEHOLDER_WITH_SEPARATORS,
+        (match, before: string, offset: number, text: string) =>
+          offset === 0 || offset + match.length === text.length ? "" : before
+      )
+      .replace(/\s{2,}/g, " ")
+      .trim()
+  );
+}
+
+function stripSuffixes(value: string, patterns: RegExp[]) {
+  let stripped = value;
+  let previous: string;
+  // Suffixes can stack, e.g. "Song (feat. X) - Remastered 2011".
+  do {
+    previous = stripped;
+    for (const pattern of patterns) {
+      stripped = stripped.replace(pattern, "");
+    }
+  } while (stripped !== previous);
+  return stripped.trim() || value;
+}
+
+function lengthOf(text: string) {
+  // Count code points so emoji and accented characters are not double counted.
+  return Array.from(text).length;
+}
+
+function truncateWithEllipsis(text: string, maxLength: number) {
+  const codePoints = Array.from(text);
+  if (codePoints.length <= maxLength) return text;
+  const kept = codePoints.slice(0, Math.max(0, maxLength - 1)).join("");
+  const lastSpace = kept.lastIndexOf(" ");
+  // Prefer cutting at a word boundary unless that throws away too much.
+  const cut = lastSpace >= kept.length * 0.6 ? kept.slice(0, lastSpace) : kept;
+  return `${cut.replace(TRAILING_SEPARATORS, "")}${ELLIPSIS}`;
+}
+
+// Renders the template and shortens it to fit `maxLength`, dropping featured artists and
+// remix/version suffixes before falling back to an ellipsis.
+export function renderStatusTemplate(
+  template: string,
+  fields: StatusTemplateFields,
+  maxLength = SLACK_STATUS_TEXT_MAX_LENGTH
+) {
+  const withoutFeatured: StatusTemplateFields = {
+    ...fields,
+    title: stripSuffixes(fields.title, FEATURED_ARTIST_SUFFIXES),
+  };
+  const withoutVersion: StatusTemplateFields = {
+    ...withoutFeatured,
+    title: stripSuffixes(fields.title, [
+      ...FEATURED_ARTIST_SUFFIXES,
+      ...VERSION_SUFFIXES,
+    ]),
+    album: stripSuffixes(fields.album, VERSION_SUFFIXES),
+  };
+  const withPrimaryArtist: StatusTemplateFields = {
+    ...withoutVersion,
+    artist: fields.artist.split(/,\s*|\s+&\s+/)[0] ?? fields.artist,
+  };
+
+  let rendered = "";
+  for (const candidate of [
+    fields,
+    withoutFeatured,
+    withoutVersion,
+    withPrimaryArtist,
+  ]) {
+    rendered = fillTemplate(template, candidate);
+    if (lengthOf(rendered) <= maxLength) return rendered;
+  }
+  return truncateWithEllipsis(rendered, maxLength);
+}
@@ -2,14 +2,91 @@ import path from "node:path";
 import { existsSync } from "node:fs";
 import { readFile, writeFile } from "node:fs/promises";
 import { timingSafeEqual } from "node:crypto";
-import { z, type ZodError } from "zod";
+import { z } from "zod";
 import {
   type Config,
+  type ConfigIssue,
+  ConfigValidationError,
   type ConfigWithDefaults,
+  type SlackWorkspace,
   applyDefaults,
+  getConfigIssues,
+  getSlackWorkspaces,
   parseConfig,
 } from "./config-schema";
-import { readConfigFile, resolveConfigPath, writeConfigFile } from "./config";
+import {
+  readConfigFileWithVersion,
+  readConfigVersion,
+  resolveConfigPath,
+  writeConfigFile,
+} from "./config";
+import { migrateConfig } from "./config-migrations";
+import { FileLockTimeoutError, withFileLock } from "./file-lock";
+import {
+  type ConfigChange,
+  diffConfigs,
+  listConfigSnapshots,
+  readConfigSnapshot,
+} from "./config-history";
+import {
+  type ApiErrorResponse,
+  type ClearLogsResponse,
+  type ConfigHistoryResponse,
+  type ConfigResponse,
+  type LogArchivesResponse,
+  type LogStreamEvent,
+  type LogsResponse,
+  type OAuthStatusResponse,
+  type SlackTestResponse,
+  type StatusResponse,
+  type UiConfigResponse,
+  type WorkspacesResponse,
+  clearLogsQuerySchema,
+  configRequestSchema,
+  formatZodError,
+  logArchivesQuerySchema,
+  logStreamQuerySchema,
+  logsQuerySchema,
+  slackTestRequestSchema,
+} from "./api-contract";
+import {
+  type Cache,
+  getCacheFilePath,
+  getLastRunFilePath,
+  parseCache,
+} from "./status-cache";
+import { parseLastRun } from "./last-run";
+import { createLogFollower } from "./log-follower";
+import { type LogFilter, matchesLogFilter, parseLogLine } from "./log-format";
+import {
+  LogCursorError,
+  type LogPage,
+  readLogArchivePage,
+  readLogPage,
+} from "./log-reader";
+import { listLogArchives } from "./log-rotation";
+import {
+  type SecretRef,
+  getSecretSource,
+  isMaskedSecret,
+  maskSecret,
+  resolveSecret,
+} from "./secrets";
+import {
+  SLACK_USER_SCOPES,
+  SlackApiError,
+  createSlackClient,
+  isSlackUserToken,
+} from "./slack-client";
+import {
+  DEFAULT_SLACK_AUTHORIZE_URL,
+  DEFAULT_SLACK_TOKEN_URL,
+  type SlackOAuthSettings,
+  applyOAuthGrant,
+  buildAuthorizeUrl,
+  createOAuthStateStore,
+  exchangeOAuthCode,
+} from "./slack-oauth";
 
 const repositoryDirectory = process.cwd();
 const configUiPasswordFromEnvironment =
@@ -38,47 +115,42 @@ const configFilePath = resolveConfigPath(
   Bun.env.CONFIG_PATH ?? process.env.CONFIG_PATH
 );
 
-const uiConfigSchema = z
-  .object({
-    statusTtlSeconds: z.number().finite().min(0),
-    alwaysOverride: z.boolean(),
-    cacheMaxAgeSeconds: z.number().finite().min(0),
-    emptyReadConfirmWindowSeconds: z.number().finite().min(0),
-  })
-  .strict();
+function readEnvironmentValue(name: string) {
+  const value = (Bun.env[name] ?? process.env[name] ?? "").trim();
+  return value === "" ? undefined : value;
+}
 
-type UiConfig = z.infer<typeof uiConfigSchema>;
+const slackClientId = readEnvironmentValue("SLACK_CLIENT_ID");
+const slackClientSecret = readEnvironmentValue("SLACK_CLIENT_SECRET");
+const slackOAuthSettings: SlackOAuthSettings | undefined =
+  slackClientId && slackClientSecret
+    ? {
+        clientId: slackClientId,
+        clientSecret: slackClientSecret,
+        authorizeUrl:
+          readEnvironmentValue("SLACK_OAUTH_AUTHORIZE_URL") ??
+          DEFAULT_SLACK_AUTHORIZE_URL,
+        tokenUrl:
+          readEnvironmentValue("SLACK_OAUTH_TOKEN_URL") ??
+          DEFAULT_SLACK_TOKEN_URL,
+        redirectUri: readEnvironmentValue("SLACK_OAUTH_REDIRECT_URI"),
+      }
+    : undefined;
+const oauthStates = createOAuthStateStore();
 
-const logsQuerySchema = z
+const oauthStartQuerySchema = z
   .object({
-    stream: z.enum(["stdout", "stderr"]).optional().default("stdout"),
-    limit: z.coerce.number().int().min(100).max(10000).optional().default(2500),
+    workspace: z.string().trim().min(1).optional(),
   })
   .strict();
 
-const logsStreamQuerySchema = z
+const oauthCallbackQuerySchema = z
   .object({
-    stream: z.enum(["stdout", "stderr"]).optional().default("stdout"),
+    state: z.string().min(1),
+    code: z.string().min(1).optional(),
+    error: z.string().optional(),
   })
-  .strict();
-
-function formatZodError(error: ZodError) {
-  return error.errors
-    .map((issue) => {
-      const path = issue.path.length > 0 ? issue.path.join(".") : "payload";
-      return `${path}: ${issue.message}`;
-    })
-    .join("; ");
-}
-
-function selectUiConfig(config: ConfigWithDefaults): UiConfig {
-  return {
-    statusTtlSeconds: config.statusTtlSeconds,
-    alwaysOverride: config.alwaysOverride,
-    cacheMaxAgeSeconds: config.cacheMaxAgeSeconds,
-    emptyReadConfirmWindowSeconds: config.emptyReadConfirmWindowSeconds,
-  };
-}
+  .passthrough();
 
 function unauthorizedResponse() {
   return new Response("Unauthorized", {
@@ -105,108 +177,652 @@ function isAuthorizedRequest(request: Request) {
   return timingSafeEqual(received, expected);
 }
 
-function createJsonResponse(body: unknown, status = 200) {
+function createJsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+) {
   return new Response(JSON.stringify(body, null, 2), {
     status,
     headers: {
       "Content-Type": "application/json; charset=utf-8",
       "Cache-Control": "no-store",
+      ...headers,
     },
   });
 }
 
+function createConfigVersionHeaders(version: string | null) {
+  return version ? { ETag: `"${version}"` } : undefined;
+}
+
+function createErrorResponse(
+  error: string,
+  status: number,
+  issues?: ConfigIssue[]
+) {
+  return createJsonResponse(
+    { ok: false, error, issues } satisfies ApiErrorResponse,
+    status
+  );
+}
+
+// Validation problems carry the offending fields so the UI can show them inline.
+function createConfigErrorResponse(error: unknown) {
+  if (error instanceof FileLockTimeoutError) {
+    return createErrorResponse(error.message, 503);
+  }
+  return createErrorResponse(
+    error instanceof Error ? error.message : String(error),
+    400,
+    error instanceof ConfigValidationError ? error.issues : undefined
+  );
+}
+
 async function loadConfigForUi(): Promise<{
   config: ConfigWithDefaults;
   exists: boolean;
+  version: string | null;
   error?: string;
 }> {
-  if (!existsSync(configFilePath)) {
-    return { config: applyDefaults({ slackToken: "" }), exists: false };
-  }
+  const { config, ...loaded } = await loadConfigForUpdate();
+  return { config: applyDefaults(config ?? { slackToken: "" }), ...loaded };
+}
+
+// Only the source and a masked form of each token ever reach the browser.
+async function describeToken(ref: SecretRef) {
+  const source = getSecretSource(ref);
   try {
-    const config = await readConfigFile(configFilePath);
-    return { config: applyDefaults(config), exists: true };
+    const token = await resolveSecret(ref, {
+      baseDirectory: repositoryDirectory,
+    });
+    const valid = isSlackUserToken(token);
+    return {
+      source,
+      masked: maskSecret(token),
+      valid,
+      error: valid ? undefined : "Not a Slack user token (xoxp-...).",
+    };
   } catch (error) {
     return {
-      config: applyDefaults({ slackToken: "" }),
-      exists: true,
+      source,
+      masked: null,
+      valid: false,
       error: error instanceof Error ? error.message : String(error),
     };
   }
 }
 
-function parseIncomingConfig(requestPayload: unknown) {
-  return parseConfig(requestPayload);
+function maskTokenRef(ref: SecretRef): SecretRef {
+  if (typeof ref !== "string" || ref === "") return ref;
+  return maskSecret(ref);
+}
+
+// Config keys that hold a secret reference.
+const SECRET_CONFIG_KEYS = new Set([
+  "slackToken",
+  "clientSecret",
+  "refreshToken",
+]);
+
+// History entries may hold inline tokens from earlier versions of the config.
+function maskConfigChange(change: ConfigChange): ConfigChange {
+  if (!SECRET_CONFIG_KEYS.has(change.path.split(".").pop() ?? "")) {
+    return change;
+  }
+  const mask = (value: unknown) =>
+    typeof value === "string" ? maskTokenRef(value) : value;
+  return { ...change, before: mask(change.before), after: mask(change.after) };
+}
+
+function maskConfigTokens<T extends Config>(config: T): T {
+  return {
+    ...config,
+    slackToken:
+      config.slackToken === undefined
+        ? undefined
+        : maskTokenRef(config.slackToken),
+    workspaces: config.workspaces?.map((workspace) => ({
+      ...workspace,
+      slackToken: maskTokenRef(workspace.slackToken),
+    })),
+    spotifyWebApi: config.spotifyWebApi && {
+      ...config.spotifyWebApi,
+      clientSecret: maskTokenRef(config.spotifyWebApi.clientSecret),
+      refreshToken: maskTokenRef(config.spotifyWebApi.refreshToken),
+    },
+  };
+}
+
+async function selectConfigResponse(
+  config: ConfigWithDefaults,
+  exists: boolean
+) {
+  const tokens = exists
+    ? await Promise.all(
+        getSlackWorkspaces(config).map(async (workspace) => ({
+          workspace: workspace.name,
+          ...(await describeToken(workspace.slackToken)),
+        }))
+      )
+    : [];
+  return { config: maskConfigTokens(config), tokens };
+}
+
+function restoreMaskedToken(
+  incoming: unknown,
+  existing: SecretRef | undefined,
+  label: string,
+  secretName = "Slack token"
+) {
+  if (typeof incoming !== "string" || !isMaskedSecret(incoming)) {
+    return incoming;
+  }
+  if (typeof existing !== "string" || maskSecret(existing) !== incoming) {
+    throw new ConfigValidationError([
+      { path: label, message: `Enter the full ${secretName}.` },
+    ]);
+  }
+  return existing;
+}
+
+// The browser only ever sees masked tokens, so a masked value sent back means "unchanged".
+function parseIncomingConfig(requestPayload: unknown, existing?: Config) {
+  const parsedRequest = configRequestSchema.safeParse(requestPayload);
+  if (!parsedRequest.success) {
+    throw new ConfigValidationError(getConfigIssues(parsedRequest.error));
+  }
+  const payload = parsedRequest.data;
+  const workspaces = payload.workspaces?.map((workspace, index) => {
+    const existingWorkspace = existing?.workspaces?.find(
+      (candidate) => candidate.name === workspace.name
+    );
+    return {
+      ...workspace,
+      slackToken: restoreMaskedToken(
+        workspace.slackToken,
+        existingWorkspace?.slackToken,
+        `workspaces.${index}.slackToken`
+      ),
+    };
+  });
+  const spotifyWebApi = payload.spotifyWebApi && {
+    ...payload.spotifyWebApi,
+    clientSecret: restoreMaskedToken(
+      payload.spotifyWebApi.clientSecret,
+      existing?.spotifyWebApi?.clientSecret,
+      "spotifyWebApi.clientSecret",
+      "Spotify client secret"
+    ),
+    refreshToken: restoreMaskedToken(
+      payload.spotifyWebApi.refreshToken,
+      existing?.spotifyWebApi?.refreshToken,
+      "spotifyWebApi.refreshToken",
+      "Spotify refresh token"
+    ),
+  };
+  return parseConfig({
+    ...payload,
+    slackToken: restoreMaskedToken(
+      payload.slackToken,
+      existing?.slackToken,
+      "slackToken"
+    ),
+    workspaces,
+    spotifyWebApi,
+  });
 }
 
 async function loadConfigForUpdate(): Promise<{
   config?: Config;
   exists: boolean;
+  version: string | null;
   error?: string;
 }> {
   if (!existsSync(configFilePath)) {
-    return { exists: false };
+    return { exists: false, version: null };
   }
 
   try {
-    const config = await readConfigFile(configFilePath);
-    return { config, exists: true };
+    const { config, version } = await readConfigFileWithVersion(configFilePath);
+    return { config, exists: true, version };
   } catch (error) {
     return {
       exists: true,
+      version: await readConfigVersion(configFilePath),
       error: error instanceof Error ? error.message : String(error),
     };
   }
 }
 
-function resolveLogPath(logPath: string) {
-  return path.isAbsolute(logPath)
-    ? logPath
-    : path.resolve(repositoryDirectory, logPath);
+// A write based on an older version of the config would silently drop the changes made
+// since, so it is rejected when the client says which version it edited (If-Match), or
+// that it saw no config file (If-None-Match: *). The bundled UI always sends one; a
+// request with neither, e.g. from a script, writes whatever the file holds.
+function createStaleConfigResponse(request: Request, version: string | null) {
+  const ifMatch = request.headers.get("If-Match")?.trim();
+  const ifNoneMatch = request.headers.get("If-None-Match")?.trim();
+  let isStale = false;
+  if (ifMatch && ifMatch !== "*") {
+    isStale = ifMatch.replace(/^W\//, "").replace(/^"|"$/g, "") !== version;
+  } else if (ifNoneMatch === "*") {
+    isStale = version !== null;
+  }
+  if (!isStale) return undefined;
+  return createErrorResponse(
+    "The config file changed since it was loaded. Reload and try again.",
+    409
+  );
+}
+
+// Reads, changes and writes the config while holding its lock, so the updater and other
+// requests never see or overwrite a half-finished change.
+function withConfigLock<T>(action: () => Promise<T>) {
+  return withFileLock(configFilePath, action);
+}
+
+// Compared in the current format, so a format upgrade alone does not show as a change.
+function migrateForDiff(payload: unknown) {
+  try {
+    return migrateConfig(payload).config;
+  } catch {
+    return payload;
+  }
 }
 
-async function readLogTail(
+async function selectConfigHistory(): Promise<
+  ConfigHistoryResponse["snapshots"]
+> {
+  let current: unknown = {};
+  if (existsSync(configFilePath)) {
+    try {
+      current = migrateForDiff(
+        JSON.parse(await readFile(configFilePath, "utf8"))
+      );
+    } catch {
+      // A broken config is compared as empty, which lists everything a restore brings back.
+    }
+  }
+  const snapshots = await listConfigSnapshots(configFilePath);
+  return snapshots.map((snapshot) => {
+    let content: unknown;
+    try {
+      content = JSON.parse(snapshot.content);
+    } catch {
+      return {
+        id: snapshot.id,
+        createdAt: snapshot.createdAt,
+        changes: [],
+        error: "This version is not valid JSON and cannot be restored.",
+      };
+    }
+    return {
+      id: snapshot.id,
+      createdAt: snapshot.createdAt,
+      changes: diffConfigs(current, migrateForDiff(content)).map(
+        maskConfigChange
+      ),
+    };
+  });
+}
+
+async function restoreConfigSnapshot(request: Request, id: string) {
+  const snapshot = await readConfigSnapshot(configFilePath, id);
+  if (!snapshot) {
+    return createErrorResponse(`Unknown config version "${id}".`, 404);
+  }
+  try {
+    // Versions saved before a format change are upgraded like the config file itself.
+    const config = parseConfig(
+      migrateConfig(JSON.parse(snapshot.content)).config
+    );
+    return await withConfigLock(async () => {
+      const staleResponse = createStaleConfigResponse(
+        request,
+        await readConfigVersion(configFilePath)
+      );
+      if (staleResponse) return staleResponse;
+      // Goes through the history as well, so a restore can be undone.
+      const version = await writeConfigFile(configFilePath, config);
+      return createJsonResponse(
+        {
+          ok: true,
+          config: maskConfigTokens(config),
+          meta: {
+            path: configFilePath,
+            exists: true,
+            version,
+          },
+        } satisfies UiConfigResponse,
+        200,
+        createConfigVersionHeaders(version)
+      );
+    });
+  } catch (error) {
+    return createConfigErrorResponse(error);
+  }
+}
+
+// The updater may not have run yet, and the UI should not fail over a broken file.
+async function readUpdaterState<T>(
   filePath: string,
-  lineLimit: number
-): Promise<{
-  lines: string[];
-  totalLines: number;
-  truncated: boolean;
-  missing: boolean;
-}> {
-  if (!existsSync(filePath)) {
+  parse: (payload: unknown) => T
+): Promise<{ value: T | null; error?: string }> {
+  if (!existsSync(filePath)) return { value: null };
+  try {
+    return { value: parse(JSON.parse(await readFile(filePath, "utf8"))) };
+  } catch (error) {
+    return {
+      value: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+async function readStatusCache(): Promise<Cache | undefined> {
+  const { value } = await readUpdaterState(
+    getCacheFilePath(repositoryDirectory),
+    parseCache
+  );
+  return value ?? undefined;
+}
+
+function selectWorkspaceSummaries(
+  config: ConfigWithDefaults,
+  cache: Cache | undefined
+) {
+  return getSlackWorkspaces(config).map((workspace) => ({
+    name: workspace.name,
+    statusTemplate: workspace.statusTemplate ?? config.statusTemplate,
+    statusEmoji: workspace.statusEmoji ?? config.statusEmoji,
+    alwaysOverride: workspace.alwaysOverride ?? config.alwaysOverride,
+    lastResult: cache?.workspaces[workspace.name]?.lastResult ?? null,
+  }));
+}
+
+// The OAuth flow runs through full-page navigations, so outcomes are sent back to the UI
+// as query parameters.
+function redirectToUi(params: Record<string, string>) {
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: `/?${new URLSearchParams(params).toString()}`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function redirectWithOAuthError(message: string) {
+  return redirectToUi({ oauth: "error", message });
+}
+
+function handleOAuthStart(requestUrl: URL) {
+  if (!slackOAuthSettings) {
+    return redirectWithOAuthError(
+      "Slack OAuth is not configured. Set SLACK_CLIENT_ID and SLACK_CLIENT_SECRET."
+    );
+  }
+  const parsedQuery = oauthStartQuerySchema.safeParse(
+    Object.fromEntries(requestUrl.searchParams.entries())
+  );
+  if (!parsedQuery.success) {
+    return redirectWithOAuthError(formatZodError(parsedQuery.error));
+  }
+
+  const redirectUri =
+    slackOAuthSettings.redirectUri ??
+    new URL("/api/slack/oauth/callback", requestUrl.origin).toString();
+  const state = oauthStates.create(parsedQuery.data.workspace, redirectUri);
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: buildAuthorizeUrl(slackOAuthSettings, state, redirectUri),
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+async function handleOAuthCallback(requestUrl: URL) {
+  if (!slackOAuthSettings) {
+    return redirectWithOAuthError("Slack OAuth is not configured.");
+  }
+  const parsedQuery = oauthCallbackQuerySchema.safeParse(
+    Object.fromEntries(requestUrl.searchParams.entries())
+  );
+  if (!parsedQuery.success) {
+    return redirectWithOAuthError(formatZodError(parsedQuery.error));
+  }
+  const pending = oauthStates.consume(parsedQuery.data.state);
+  if (!pending) {
+    return redirectWithOAuthError(
+      "Slack sign-in expired or was already used. Start again."
+    );
+  }
+  if (parsedQuery.data.error || !parsedQuery.data.code) {
+    return redirectWithOAuthError(
+      `Slack sign-in was not completed: ${
+        parsedQuery.data.error ?? "missing code"
+      }`
+    );
+  }
+
+  try {
+    const grant = await exchangeOAuthCode(
+      slackOAuthSettings,
+      parsedQuery.data.code,
+      pending.redirectUri
+    );
+    return await withConfigLock(async () => {
+      const existingConfig = await loadConfigForUpdate();
+      if (existingConfig.error) {
+        return redirectWithOAuthError(existingConfig.error);
+      }
+      const { config, workspace } = await applyOAuthGrant(
+        existingConfig.config,
+        grant,
+        pending.workspace,
+        { baseDirectory: repositoryDirectory }
+      );
+      await writeConfigFile(configFilePath, config);
+      return redirectToUi({ oauth: "connected", workspace });
+    });
+  } catch (error) {
+    return redirectWithOAuthError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+async function testWorkspaceConnection(
+  config: ConfigWithDefaults,
+  workspace: SlackWorkspace
+) {
+  const result = {
+    workspace: workspace.name,
+    tokenSource: getSecretSource(workspace.slackToken),
+  };
+  let token: string;
+  try {
+    token = await resolveSecret(workspace.slackToken, {
+      baseDirectory: repositoryDirectory,
+    });
+  } catch (error) {
     return {
-      lines: [],
-      totalLines: 0,
-      truncated: false,
-      missing: true,
+      ...result,
+      ok: false,
+      errorKind: "token",
+      error: error instanceof Error ? error.message : String(error),
     };
   }
 
-  const rawContent = await readFile(filePath, "utf8");
-  const normalizedContent = rawContent.replace(/\r\n/g, "\n");
-  const allLines = normalizedContent.split("\n");
-  if (allLines.length > 0 && allLines[allLines.length - 1] === "") {
-    allLines.pop();
+  // A test should answer quickly; the updater keeps its own retry policy.
+  const slack = createSlackClient({
+    token,
+    baseUrl: config.slackApiBaseUrl,
+    timeoutMs: config.slackApiTimeoutSeconds * 1000,
+    maxAttempts: 1,
+  });
+  try {
+    const identity = await slack.authTest();
+    const missingScopes = identity.scopes
+      ? SLACK_USER_SCOPES.filter((scope) => !identity.scopes?.includes(scope))
+      : [];
+    const connection = {
+      ...result,
+      team: identity.team ?? null,
+      teamId: identity.teamId ?? null,
+      url: identity.url ?? null,
+      user: identity.user ?? null,
+      userId: identity.userId ?? null,
+      scopes: identity.scopes ?? null,
+      missingScopes,
+    };
+    try {
+      const profile = await slack.getProfile();
+      return {
+        ...connection,
+        ok: missingScopes.length === 0,
+        statusText: profile.status_text ?? "",
+        statusEmoji: profile.status_emoji ?? "",
+        error:
+          missingScopes.length > 0
+            ? `Missing scopes: ${missingScopes.join(", ")}`
+            : undefined,
+      };
+    } catch (error) {
+      if (!(error instanceof SlackApiError)) throw error;
+      return {
+        ...connection,
+        ok: false,
+        errorKind: error.kind,
+        error: error.message,
+      };
+    }
+  } catch (error) {
+    if (!(error instanceof SlackApiError)) throw error;
+    return {
+      ...result,
+      ok: false,
+      errorKind: error.kind,
+      error: error.message,
+    };
   }
+}
 
-  const totalLines = allLines.length;
-  const lines =
-    totalLines > lineLimit ? allLines.slice(totalLines - lineLimit) : allLines;
+function resolveLogPath(logPath: string) {
+  return path.isAbsolute(logPath)
+    ? logPath
+    : path.resolve(repositoryDirectory, logPath);
+}
 
+function selectLogFilter(query: z.output<typeof logStreamQuerySchema>) {
   return {
-    lines,
-    totalLines,
-    truncated: totalLines > lines.length,
-    missing: false,
+    levels: query.level,
+    since: query.since,
+    until: query.until,
+    runId: query.runId,
+    metadata: query.metadata,
+    pattern: query.q,
+  } satisfies LogFilter;
+}
+
+const LOG_STREAM_POLL_INTERVAL_MS = 1000;
+// Bun drops connections that send nothing for 10 seconds.
+const LOG_STREAM_KEEPALIVE_INTERVAL_MS = 5000;
+
+function createLogStreamResponse(
+  request: Request,
+  filePath: string,
+  lineLimit: number,
+  filter: LogFilter,
+  configError: string | undefined
+) {
+  const follower = createLogFollower(filePath);
+  const matches = (line: string) =>
+    matchesLogFilter(line, parseLogLine(line), filter);
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let isPolling = false;
+  let lastWriteAt = 0;
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
   };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+          lastWriteAt = Date.now();
+        } catch {
+          stop(); // the client went away
+        }
+      };
+      const send = (event: LogStreamEvent) =>
+        write(`data: ${JSON.stringify(event)}\n\n`);
+
+      const poll = async () => {
+        if (isPolling || !timer) return;
+        isPolling = true;
+        try {
+          const update = await follower.poll();
+          if (update?.kind === "reset") {
+            const page = await readLogPage(
+              filePath,
+              lineLimit,
+              filter,
+              update.end
+            );
+            send({
+              type: "reset",
+              reason: update.reason,
+              path: filePath,
+              lines: page.lines,
+              truncated: page.nextCursor !== null,
+              missing: update.reason === "missing",
+              configError,
+            });
+          } else if (update) {
+            const lines = update.lines.filter(matches);
+            if (lines.length > 0) send({ type: "append", lines });
+          } else if (
+            Date.now() - lastWriteAt >=
+            LOG_STREAM_KEEPALIVE_INTERVAL_MS
+          ) {
+            write(": keepalive\n\n");
+          }
+        } catch (error) {
+          send({
+            type: "error",
+            error: error instanceof Error ? error.message : String(error),
+          });
+        } finally {
+          isPolling = false;
+        }
+      };
+
+      timer = setInterval(() => void poll(), LOG_STREAM_POLL_INTERVAL_MS);
+      void poll();
+      request.signal.addEventListener("abort", stop);
+    },
+    cancel: stop,
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
 }
 
+// Holds the log's lock, as rotation does, so a clear never lands in the middle of one.
 async function clearLogFile(filePath: string): Promise<{ missing: boolean }> {
   if (!existsSync(filePath)) {
     return { missing: true };
   }
-  await writeFile(filePath, "", "utf8");
+  await withFileLock(filePath, () => writeFile(filePath, "", "utf8"));
   return { missing: false };
 }
 
@@ -214,171 +830,360 @@ async function handleApiRequest(request: Request): Promise<Response> {
   const requestUrl = new URL(request.url);
 
   if (requestUrl.pathname === "/api/config" && request.method === "GET") {
-    const { config, exists, error } = await loadConfigForUi();
+    const { config, exists, version, error } = await loadConfigForUi();
     if (error) {
-      return createJsonResponse({ ok: false, error }, 500);
+      return createErrorResponse(error, 500);
     }
-    return createJsonResponse({
-      config,
-      meta: {
-        path: configFilePath,
-        exists,
-      },
-    });
+    return createJsonResponse(
+      {
+        ok: true,
+        ...(await selectConfigResponse(config, exists)),
+        meta: {
+          path: configFilePath,
+          exists,
+          version,
+        },
+      } satisfies ConfigResponse,
+      200,
+      createConfigVersionHeaders(version)
+    );
   }
 
+  // The form edits the config as stored, so settings left out keep using their defaults.
   if (requestUrl.pathname === "/api/ui-config" && request.method === "GET") {
-    const { config, exists, error } = await loadConfigForUi();
+    const { config, exists, version, error } = await loadConfigForUpdate();
     if (error) {
-      return createJsonResponse({ ok: false, error }, 500);
+      return createErrorResponse(error, 500);
     }
+    return createJsonResponse(
+      {
+        ok: true,
+        config: config ? maskConfigTokens(config) : {},
+        meta: {
+          path: configFilePath,
+          exists,
+          version,
+        },
+      } satisfies UiConfigResponse,
+      200,
+      createConfigVersionHeaders(version)
+    );
+  }
+
+  if (requestUrl.pathname === "/api/slack/oauth" && request.method === "GET") {
     return createJsonResponse({
-      config: selectUiConfig(config),
-      meta: {
-        path: configFilePath,
-        exists,
-      },
-    });
+      ok: true,
+      enabled: Boolean(slackOAuthSettings),
+    } satisfies OAuthStatusResponse);
   }
 
-  if (requestUrl.pathname === "/api/config" && request.method === "PUT") {
+  if (
+    requestUrl.pathname === "/api/slack/oauth/start" &&
+    request.method === "GET"
+  ) {
+    return handleOAuthStart(requestUrl);
+  }
+
+  if (
+    requestUrl.pathname === "/api/slack/oauth/callback" &&
+    request.method === "GET"
+  ) {
+    return handleOAuthCallback(requestUrl);
+  }
+
+  if (requestUrl.pathname === "/api/slack/test" && request.method === "POST") {
     try {
-      const requestPayload = await request.json();
-      const config = parseIncomingConfig(requestPayload);
-      await writeConfigFile(configFilePath, config);
+      const requestText = await request.text();
+      const parsedRequest = slackTestRequestSchema.safeParse(
+        requestText.trim() === "" ? {} : JSON.parse(requestText)
+      );
+      if (!parsedRequest.success) {
+        return createErrorResponse(formatZodError(parsedRequest.error), 400);
+      }
+
+      const { config, exists, error } = await loadConfigForUi();
+      if (error || !exists) {
+        return createErrorResponse(
+          error ?? `Config file not found at ${configFilePath}.`,
+          400
+        );
+      }
+      const requestedName = parsedRequest.data.workspace;
+      const workspaces = getSlackWorkspaces(config).filter(
+        (workspace) =>
+          requestedName === undefined || workspace.name === requestedName
+      );
+      if (workspaces.length === 0) {
+        return createErrorResponse(
+          `Unknown workspace "${requestedName}".`,
+          404
+        );
+      }
+
+      const results = await Promise.all(
+        workspaces.map((workspace) =>
+          testWorkspaceConnection(config, workspace)
+        )
+      );
       return createJsonResponse({
         ok: true,
-        config: applyDefaults(config),
-        meta: {
-          path: configFilePath,
-          exists: true,
-        },
-      });
+        results,
+      } satisfies SlackTestResponse);
     } catch (error) {
-      return createJsonResponse(
-        {
-          ok: false,
-          error: error instanceof Error ? error.message : String(error),
-        },
-        400
+      return createErrorResponse(
+        error instanceof Error ? error.message : String(error),
+        500
       );
     }
   }
 
-  if (requestUrl.pathname === "/api/ui-config" && request.method === "PUT") {
+  if (requestUrl.pathname === "/api/status" && request.method === "GET") {
+    const [lastRun, cache] = await Promise.all([
+      readUpdaterState(getLastRunFilePath(repositoryDirectory), parseLastRun),
+      readUpdaterState(getCacheFilePath(repositoryDirectory), parseCache),
+    ]);
+    return createJsonResponse({
+      ok: true,
+      lastRun: lastRun.value,
+      lastRunError: lastRun.error,
+      cache: cache.value,
+      cacheError: cache.error,
+    } satisfies StatusResponse);
+  }
+
+  if (requestUrl.pathname === "/api/workspaces" && request.method === "GET") {
+    const { config, exists, error } = await loadConfigForUi();
+    if (error) {
+      return createErrorResponse(error, 500);
+    }
+    return createJsonResponse({
+      ok: true,
+      workspaces: exists
+        ? selectWorkspaceSummaries(config, await readStatusCache())
+        : [],
+    } satisfies WorkspacesResponse);
+  }
+
+  if (requestUrl.pathname === "/api/config" && request.method === "PUT") {
     try {
       const requestPayload = await request.json();
-      const parsedUiConfig = uiConfigSchema.safeParse(requestPayload);
-      if (!parsedUiConfig.success) {
-        return createJsonResponse(
-          { ok: false, error: formatZodError(parsedUiConfig.error) },
-          400
+      return await withConfigLock(async () => {
+        const existingConfig = await loadConfigForUpdate();
+        const staleResponse = createStaleConfigResponse(
+          request,
+          existingConfig.version
         );
-      }
+        if (staleResponse) return staleResponse;
+        if (existingConfig.error) {
+          return createErrorResponse(existingConfig.error, 400);
+        }
 
-      const existingConfig = await loadConfigForUpdate();
-      if (existingConfig.error) {
-        return createJsonResponse(
-          { ok: false, error: existingConfig.error },
-          400
+        const config = parseIncomingConfig(
+          requestPayload,
+          existingConfig.config
         );
-      }
-      if (!existingConfig.exists || !existingConfig.config) {
+        const version = await writeConfigFile(configFilePath, config);
         return createJsonResponse(
           {
-            ok: false,
-            error: `Config file not found at ${configFilePath}. Create it first with a Slack token.`,
-          },
-          400
+            ok: true,
+            ...(await selectConfigResponse(applyDefaults(config), true)),
+            meta: {
+              path: configFilePath,
+              exists: true,
+              version,
+            },
+          } satisfies ConfigResponse,
+          200,
+          createConfigVersionHeaders(version)
         );
-      }
-
-      const updatedConfig = parseConfig({
-        ...existingConfig.config,
-        ...parsedUiConfig.data,
       });
+    } catch (error) {
+      return createConfigErrorResponse(error);
+    }
+  }
 
-      await writeConfigFile(configFilePath, updatedConfig);
-      return createJsonResponse({
-        ok: true,
-        config: selectUiConfig(applyDefaults(updatedConfig)),
-        meta: {
-          path: configFilePath,
-          exists: true,
-        },
+  // Replaces the whole config; masked tokens sent back keep the stored ones.
+  if (requestUrl.pathname === "/api/ui-config" && request.method === "PUT") {
+    try {
+      const requestPayload = await request.json();
+      return await withConfigLock(async () => {
+        const existingConfig = await loadConfigForUpdate();
+        const staleResponse = createStaleConfigResponse(
+          request,
+          existingConfig.version
+        );
+        if (staleResponse) return staleResponse;
+        if (existingConfig.error) {
+          return createErrorResponse(existingConfig.error, 400);
+        }
+
+        const updatedConfig = parseIncomingConfig(
+          requestPayload,
+          existingConfig.config
+        );
+        const version = await writeConfigFile(configFilePath, updatedConfig);
+        return createJsonResponse(
+          {
+            ok: true,
+            config: maskConfigTokens(updatedConfig),
+            meta: {
+              path: configFilePath,
+              exists: true,
+              version,
+            },
+          } satisfies UiConfigResponse,
+          200,
+          createConfigVersionHeaders(version)
+        );
       });
     } catch (error) {
-      return createJsonResponse(
-        {
-          ok: false,
-          error: error instanceof Error ? error.message : String(error),
-        },
-        400
-      );
+      return createConfigErrorResponse(error);
     }
   }
 
+  if (
+    requestUrl.pathname === "/api/config/history" &&
+    request.method === "GET"
+  ) {
+    return createJsonResponse({
+      ok: true,
+      snapshots: await selectConfigHistory(),
+    } satisfies ConfigHistoryResponse);
+  }
+
+  const restoreMatch = /^\/api\/config\/history\/([^/]+)\/restore$/.exec(
+    requestUrl.pathname
+  );
+  if (restoreMatch && request.method === "POST") {
+    return restoreConfigSnapshot(request, decodeURIComponent(restoreMatch[1]));
+  }
+
   if (requestUrl.pathname === "/api/logs" && request.method === "GET") {
     const parsedQuery = logsQuerySchema.safeParse(
       Object.fromEntries(requestUrl.searchParams.entries())
     );
     if (!parsedQuery.success) {
-      return createJsonResponse(
-        { ok: false, error: formatZodError(parsedQuery.error) },
-        400
-      );
+      return createErrorResponse(formatZodError(parsedQuery.error), 400);
     }
 
     const { config, error } = await loadConfigForUi();
     const stream = parsedQuery.data.stream;
-    const lineLimit = parsedQuery.data.limit;
     const configuredPath =
       stream === "stdout" ? config.stdoutLogPath : config.stderrLogPath;
     const filePath = resolveLogPath(configuredPath);
 
     try {
-      const logData = await readLogTail(filePath, lineLimit);
+      const { limit, cursor, archive: archiveName } = parsedQuery.data;
+      const filter = selectLogFilter(parsedQuery.data);
+      let readPath = filePath;
+      let page: LogPage;
+      if (archiveName) {
+        // Only names from the listing, so the query cannot reach other files.
+        const archive = (await listLogArchives(filePath)).find(
+          ({ name }) => name === archiveName
+        );
+        if (!archive) {
+          return createErrorResponse(
+            `Unknown log archive "${archiveName}".`,
+            404
+          );
+        }
+        readPath = archive.path;
+        page = await readLogArchivePage(archive.path, limit, filter, cursor);
+      } else {
+        page = await readLogPage(filePath, limit, filter, cursor);
+      }
       return createJsonResponse({
         ok: true,
         stream,
-        path: filePath,
-        lines: logData.lines,
-        totalLines: logData.totalLines,
-        truncated: logData.truncated,
-        missing: logData.missing,
+        path: readPath,
+        lines: page.lines,
+        truncated: page.nextCursor !== null,
+        nextCursor: page.nextCursor === null ? null : String(page.nextCursor),
+        missing: page.missing,
         configError: error,
-      });
+      } satisfies LogsResponse);
     } catch (logReadError) {
-      return createJsonResponse(
-        {
-          ok: false,
-          error:
-            logReadError instanceof Error
-              ? logReadError.message
-              : String(logReadError),
-        },
+      if (logReadError instanceof LogCursorError) {
+        return createErrorResponse(logReadError.message, 409);
+      }
+      return createErrorResponse(
+        logReadError instanceof Error
+          ? logReadError.message
+          : String(logReadError),
         500
       );
     }
   }
 
-  if (requestUrl.pathname === "/api/logs" && request.method === "DELETE") {
-    const parsedQuery = logsStreamQuerySchema.safeParse(
+  if (
+    requestUrl.pathname === "/api/logs/archives" &&
+    request.method === "GET"
+  ) {
+    const parsedQuery = logArchivesQuerySchema.safeParse(
       Object.fromEntries(requestUrl.searchParams.entries())
     );
     if (!parsedQuery.success) {
-      return createJsonResponse(
-        { ok: false, error: formatZodError(parsedQuery.error) },
-        400
+      return createErrorResponse(formatZodError(parsedQuery.error), 400);
+    }
+
+    const { config } = await loadConfigForUi();
+    const stream = parsedQuery.data.stream;
+    const configuredPath =
+      stream === "stdout" ? config.stdoutLogPath : config.stderrLogPath;
+    try {
+      const archives = await listLogArchives(resolveLogPath(configuredPath));
+      return createJsonResponse({
+        ok: true,
+        stream,
+        archives: archives.map(({ name, size, rotatedAt }) => ({
+          name,
+          size,
+          rotatedAt,
+        })),
+      } satisfies LogArchivesResponse);
+    } catch (archiveListError) {
+      return createErrorResponse(
+        archiveListError instanceof Error
+          ? archiveListError.message
+          : String(archiveListError),
+        500
       );
     }
+  }
+
+  if (requestUrl.pathname === "/api/logs/stream" && request.method === "GET") {
+    const parsedQuery = logStreamQuerySchema.safeParse(
+      Object.fromEntries(requestUrl.searchParams.entries())
+    );
+    if (!parsedQuery.success) {
+      return createErrorResponse(formatZodError(parsedQuery.error), 400);
+    }
+
+    const { config, error } = await loadConfigForUi();
+    const stream = parsedQuery.data.stream;
+    const configuredPath =
+      stream === "stdout" ? config.stdoutLogPath : config.stderrLogPath;
+    return createLogStreamResponse(
+      request,
+      resolveLogPath(configuredPath),
+      parsedQuery.data.limit,
+      selectLogFilter(parsedQuery.data),
+      error
+    );
+  }
+
+  if (requestUrl.pathname === "/api/logs" && request.method === "DELETE") {
+    const parsedQuery = clearLogsQuerySchema.safeParse(
+      Object.fromEntries(requestUrl.searchParams.entries())
+    );
+    if (!parsedQuery.success) {
+      return createErrorResponse(formatZodError(parsedQuery.error), 400);
+    }
 
     const { config, error } = await loadConfigForUi();
     if (error) {
-      return createJsonResponse(
-        { ok: false, error: `Config error: ${error}` },
-        400
-      );
+      return createErrorResponse(`Config error: ${error}`, 400);
     }
     const stream = parsedQuery.data.stream;
     const configuredPath =
@@ -392,24 +1197,20 @@ async function handleApiRequest(request: Request): Promise<Response> {
         stream,
         path: filePath,
         missing: clearResult.missing,
-      });
+      } satisfies ClearLogsResponse);
     } catch (logClearError) {
-      return createJsonResponse(
-        {
-          ok: false,
-          error:
-            logClearError instanceof Error
-              ? logClearError.message
-              : String(logClearError),
-        },
-        500
+      return createErrorResponse(
+        logClearError instanceof Error
+          ? logClearError.message
+          : String(logClearError),
+        logClearError instanceof FileLockTimeoutError ? 503 : 500
       );
     }
   }
 
   if (requestUrl.pathname === "/api/config" && request.method === "POST") {
-    return createJsonResponse(
-      { ok: false, error: "Use PUT /api/config to update the config." },
+    return createErrorResponse(
+      "Use PUT /api/config to update the config.",
       405
     );
   }
@@ -1,78 +1,295 @@
-import { z, type ZodError } from "zod";
-
-const uiConfigSchema = z
-  .object({
-    statusTtlSeconds: z.number().finite().min(0),
-    alwaysOverride: z.boolean(),
-    cacheMaxAgeSeconds: z.number().finite().min(0),
-    emptyReadConfirmWindowSeconds: z.number().finite().min(0),
-  })
-  .strict();
-
-type UiConfig = z.infer<typeof uiConfigSchema>;
-
-const configResponseSchema = z
-  .object({
-    config: uiConfigSchema,
-    meta: z
-      .object({
-        path: z.string().optional(),
-        exists: z.boolean().optional(),
-      })
-      .optional(),
-  })
-  .strict();
+import { z } from "zod";
+import {
+  type ClearLogsQuery,
+  type ConfigChangeResponse,
+  configHistoryResponseSchema,
+  type LogStream,
+  type LogStreamEvent,
+  type LogsQuery,
+  apiErrorResponseSchema,
+  clearLogsResponseSchema,
+  formatZodError,
+  type LogArchivesQuery,
+  type LogArchivesResponse,
+  logArchivesResponseSchema,
+  logStreamEventSchema,
+  logsResponseSchema,
+  oauthStatusResponseSchema,
+  type SlackTestRequest,
+  type SlackTestResponse,
+  slackTestResponseSchema,
+  type StatusResponse,
+  statusResponseSchema,
+  uiConfigResponseSchema,
+  type WorkspacesResponse,
+  workspacesResponseSchema,
+} from "../api-contract";
+import type { LastRun, LastRunWorkspace } from "../last-run";
+import { type LogEntry, parseLogLine } from "../log-format";
+import {
+  SLACK_STATUS_TEXT_MAX_LENGTH,
+  renderStatusTemplate,
+  validateStatusTemplate,
+} from "../status-template";
+import {
+  type ConfigIssue,
+  DEFAULT_CONFIG,
+  type StatusSchedule,
+  WEEKDAYS,
+  type Weekday,
+  configObjectSchema,
+  configSchema,
+  getConfigIssues,
+  timeOfDayToMinutes,
+} from "../config-schema";
+
+// The config as stored: settings left out use their defaults.
+type UiConfig = z.infer<typeof configObjectSchema>;
+// The format version is not a setting; the server stamps it on every write.
+type ConfigFieldKey = Exclude<keyof UiConfig, "version">;
+
+type ConnectionResult = SlackTestResponse["results"][number];
+
+type WorkspaceSummary = WorkspacesResponse["workspaces"][number];
 
-const logStreamSchema = z.enum(["stdout", "stderr"]);
-type LogStream = z.infer<typeof logStreamSchema>;
 const logSortDirectionSchema = z.enum(["newest-first", "oldest-first"]);
 type LogSortDirection = z.infer<typeof logSortDirectionSchema>;
-const LOG_AUTO_REFRESH_INTERVAL_MS = 30_000;
-
-const logsResponseSchema = z
-  .object({
-    ok: z.boolean(),
-    stream: logStreamSchema,
-    path: z.string(),
-    lines: z.array(z.string()),
-    totalLines: z.number().int().min(0),
-    truncated: z.boolean(),
-    missing: z.boolean(),
-    configError: z.string().optional(),
-  })
-  .strict();
-
-const clearLogsResponseSchema = z
-  .object({
-    ok: z.boolean(),
-    stream: logStreamSchema,
-    path: z.string(),
-    missing: z.boolean(),
-  })
-  .strict();
-
-const statusResponseSchema = z
-  .object({
-    ok: z.boolean().optional(),
-    error: z.string().optional(),
-  })
-  .passthrough();
+const TAB_ORDER = ["config", "logs", "history", "dashboard"] as const;
+type TabName = (typeof TAB_ORDER)[number];
+const AUTO_REFRESH_INTERVAL_MS = 30_000;
+const LOG_LINE_LIMIT = 2500;
+const LOG_FILTER_DELAY_MS = 400;
+
+const CONFIG_FIELD_GROUPS = [
+  "Slack",
+  "Player",
+  "Status",
+  "Schedule",
+  "Privacy",
+  "Logs",
+] as const;
+
+type ConfigFieldGroup = (typeof CONFIG_FIELD_GROUPS)[number];
+
+type ConfigFieldDescriptor =
+  // Has its own markup in index.html, which is moved into its group.
+  | { group: ConfigFieldGroup; custom: true }
+  | {
+      group: ConfigFieldGroup;
+      custom?: false;
+      label: string;
+      help: string;
+      checkboxLabel?: string;
+      wide?: boolean;
+    };
+
+// One entry per config key, so a key added to the schema fails to compile until it has a field.
+const CONFIG_FIELDS: Record<ConfigFieldKey, ConfigFieldDescriptor> = {
+  slackToken: {
+    group: "Slack",
+    label: "Slack token",
+    help: 'Your Slack user token (xoxp-...), or where to read it from, e.g. {"env": "SLACK_TOKEN"}. Leave it empty when using workspaces. Saved tokens are shown masked and are kept as long as you leave them unchanged.',
+    wide: true,
+  },
+  workspaces: {
+    group: "Slack",
+    label: "Workspaces",
+    help: "A JSON list of Slack workspaces, each with a name, its own slackToken and optional overrides of the status settings. Use it instead of the single token above.",
+    wide: true,
+  },
+  slackApiBaseUrl: {
+    group: "Slack",
+    label: "Slack API URL",
+    help: "Where Slack API requests are sent. Only change this to test against a local mock server.",
+  },
+  slackApiTimeoutSeconds: {
+    group: "Slack",
+    label: "Slack API timeout (seconds)",
+    help: "How long to wait for Slack to answer a request before giving up.",
+  },
+  playerSource: {
+    group: "Player",
+    label: "Player",
+    help: "How the current track is read: AppleScript on macOS, MPRIS on Linux, or auto to pick by platform.",
+  },
+  mprisPlayerName: {
+    group: "Player",
+    label: "MPRIS player name",
+    help: "Which MPRIS player to read on Linux. Run playerctl -l to list them.",
+  },
+  spotifyWebApi: {
+    group: "Player",
+    label: "Spotify Web API",
+    help: 'Reads the playlist or album being played, which emoji rules can match on with contextUri. A JSON object with your Spotify app\'s clientId, clientSecret and a refreshToken with the user-read-currently-playing scope; secrets may be given as {"env": "NAME"} like the Slack token. Saved secrets are shown masked.',
+    wide: true,
+  },
+  pollIntervalSeconds: {
+    group: "Player",
+    label: "Poll interval (seconds)",
+    help: "How often the daemon checks what is playing.",
+  },
+  clearStatusOnExit: {
+    group: "Player",
+    label: "Clear on exit",
+    help: "When the daemon stops, remove a track status it set.",
+    checkboxLabel: "Clear my track status when the daemon stops",
+  },
+  statusTemplate: { group: "Status", custom: true },
+  statusEmoji: {
+    group: "Status",
+    label: "Status emoji",
+    help: "The Slack emoji code shown next to your track, e.g. :headphones:.",
+  },
+  statusEmojiUnicode: {
+    group: "Status",
+    label: "Status emoji (unicode)",
+    help: "The same emoji as a character. Slack sometimes reports it this way, so it is used to recognise statuses set by this app.",
+  },
+  emojiRules: {
+    group: "Status",
+    label: "Emoji rules",
+    help: "A JSON list of rules that pick another emoji for specific artists, titles, track URIs, playlists or albums (contextUri, needs the Spotify Web API) or months. The first matching rule wins.",
+    wide: true,
+  },
+  statusTtlSeconds: {
+    group: "Status",
+    label: "Status TTL (seconds)",
+    help: "How long your Spotify status stays on Slack before Slack clears it automatically. Example: 120 means it expires after 2 minutes.",
+  },
+  schedule: { group: "Schedule", custom: true },
+  privacy: {
+    group: "Privacy",
+    label: "Privacy filters",
+    help: "A JSON object listing artists, titles, URIs (tracks, or playlists and albums with the Spotify Web API) and podcasts that are never published, and what is shown instead.",
+    wide: true,
+  },
+  alwaysOverride: {
+    group: "Status",
+    label: "Override status",
+    help: "Turn this on if you want this app to replace any status you already have in Slack, even if you set it yourself.",
+    checkboxLabel: "Always override any existing Slack status",
+  },
+  requireTwoEmptyReadsBeforeOverride: {
+    group: "Status",
+    label: "Confirm empty status",
+    help: "Only treat your Slack status as empty once it was read as empty twice in a row.",
+    checkboxLabel: "Require two empty reads before setting a status",
+  },
+  emptyReadConfirmWindowSeconds: {
+    group: "Status",
+    label: "Empty read window (seconds)",
+    help: "Sometimes Slack briefly returns an empty status by mistake. This sets how long to wait for a second empty result before assuming the status is truly empty.",
+  },
+  cacheMaxAgeSeconds: {
+    group: "Status",
+    label: "Cache max age (seconds)",
+    help: "How long this app remembers your own Slack status so it can put it back when Spotify stops playing.",
+  },
+  logMaxLines: {
+    group: "Logs",
+    label: "Log max lines",
+    help: "The log is rotated once it grows past this many lines. 0 turns the line limit off.",
+  },
+  logMaxBytes: {
+    group: "Logs",
+    label: "Log max bytes",
+    help: "The log is rotated once it grows past this size. 0 turns the size limit off.",
+  },
+  logMaxArchives: {
+    group: "Logs",
+    label: "Log archives kept",
+    help: "Rotated logs are kept gzip-compressed next to the log; older ones are deleted. 0 keeps none.",
+  },
+  logFormat: {
+    group: "Logs",
+    label: "Log format",
+    help: "text writes readable lines; jsonl writes one JSON object per line with a run id, which the Logs tab can filter by level, run and metadata.",
+  },
+  stdoutLogPath: {
+    group: "Logs",
+    label: "Log file",
+    help: "Where the updater writes its log. Relative paths start from the project folder.",
+  },
+  stderrLogPath: {
+    group: "Logs",
+    label: "Error log file",
+    help: "Where the updater writes errors.",
+  },
+};
+
+type ConfigFieldWidget =
+  | "text"
+  | "number"
+  | "checkbox"
+  | "select"
+  | "secret"
+  | "json";
+
+// Long enough to show how the template is shortened to fit Slack's limit.
+const STATUS_TEMPLATE_PREVIEW_TRACK = {
+  artist: "Daft Punk, Pharrell Williams & Nile Rodgers",
+  title:
+    "Get Lucky (feat. Pharrell Williams and Nile Rodgers) - Radio Edit, Remastered Anniversary Version",
+  album: "Random Access Memories (10th Anniversary Edition)",
+};
+
+const HOURS_PER_DAY = 24;
+// Pre-filled grid when a schedule is switched on for the first time.
+const DEFAULT_SCHEDULE_WORKING_HOURS = { start: 9, end: 18 };
+
+type ScheduleHours = Record<Weekday, boolean[]>;
 
 const formElement = document.querySelector<HTMLFormElement>("#config-form");
+const configFieldsElement =
+  document.querySelector<HTMLDivElement>("#config-fields");
 const statusElement = document.querySelector<HTMLDivElement>("#status");
 const reloadButton = document.querySelector<HTMLButtonElement>("#reload-btn");
 const resetButton = document.querySelector<HTMLButtonElement>("#reset-btn");
 const saveButton = document.querySelector<HTMLButtonElement>("#save-btn");
+const statusTemplatePreviewElement =
+  document.querySelector<HTMLParagraphElement>("#statusTemplatePreview");
+const scheduleGridElement =
+  document.querySelector<HTMLDivElement>("#schedule-grid");
+const scheduleNoticeElement =
+  document.querySelector<HTMLParagraphElement>("#schedule-notice");
+const scheduleHolidaysElement =
+  document.querySelector<HTMLTextAreaElement>("#scheduleHolidays");
+const workspaceListElement =
+  document.querySelector<HTMLUListElement>("#workspace-list");
+const slackTestButton =
+  document.querySelector<HTMLButtonElement>("#slack-test-btn");
+const connectionResultsElement = document.querySelector<HTMLUListElement>(
+  "#connection-results"
+);
+const slackConnectLink = document.querySelector<HTMLAnchorElement>(
+  "#slack-connect-link"
+);
 const metaPathElement = document.querySelector<HTMLSpanElement>("#meta-path");
 const metaExistsElement =
   document.querySelector<HTMLSpanElement>("#meta-exists");
 const tabButtons = Array.from(
   document.querySelectorAll<HTMLButtonElement>(".tab[data-tab]")
 );
-const tabPanels = {
+const tabPanels: Record<TabName, HTMLElement | null> = {
   config: document.querySelector<HTMLElement>("#panel-config"),
   logs: document.querySelector<HTMLElement>("#panel-logs"),
+  history: document.querySelector<HTMLElement>("#panel-history"),
+  dashboard: document.querySelector<HTMLElement>("#panel-dashboard"),
 };
+const historyListElement =
+  document.querySelector<HTMLUListElement>("#history-list");
+const historyMetaElement =
+  document.querySelector<HTMLParagraphElement>("#history-meta");
+const historyReloadButton = document.querySelector<HTMLButtonElement>(
+  "#history-reload-btn"
+);
+const dashboardListElement =
+  document.querySelector<HTMLUListElement>("#dashboard-list");
+const dashboardMetaElement =
+  document.querySelector<HTMLParagraphElement>("#dashboard-meta");
+const dashboardReloadButton = document.querySelector<HTMLButtonElement>(
+  "#dashboard-reload-btn"
+);
 const logClearButton =
   document.querySelector<HTMLButtonElement>("#logs-clear-btn");
 const logReloadButton =
@@ -87,27 +304,45 @@ const logStreamButtons = Array.from(
 const logSortButtons = Array.from(
   document.querySelectorAll<HTMLButtonElement>(".sort-btn[data-sort]")
 );
+const logLiveButton =
+  document.querySelector<HTMLButtonElement>("#logs-live-btn");
+const logLevelSelect = document.querySelector<HTMLSelectElement>("#logs-level");
+const logRunInput = document.querySelector<HTMLInputElement>("#logs-run");
+const logRunIdsElement =
+  document.querySelector<HTMLDataListElement>("#logs-run-ids");
+const logMetadataInput =
+  document.querySelector<HTMLInputElement>("#logs-metadata");
+const logSinceInput = document.querySelector<HTMLInputElement>("#logs-since");
+const logUntilInput = document.querySelector<HTMLInputElement>("#logs-until");
+const logOlderButton =
+  document.querySelector<HTMLButtonElement>("#logs-older-btn");
+const logArchiveSelect =
+  document.querySelector<HTMLSelectElement>("#logs-archive");
 
 let lastLoadedConfig: UiConfig | null = null;
-let activeTab: "config" | "logs" = "config";
+// Sent back with every write, so saving over changes made elsewhere fails with 409.
+let loadedConfigVersion: string | null = null;
+let isSlackOAuthEnabled = false;
+let activeTab: TabName = "config";
 let activeLogStream: LogStream = "stdout";
 let activeLogSortDirection: LogSortDirection = "newest-first";
 let logsLoadedOnce = false;
 let latestLogPath = "";
 let latestLogLines: string[] = [];
-let latestTotalLines = 0;
 let latestLogsTruncated = false;
+// Where GET /api/logs continues with older lines; null once the start is reached.
+let latestLogsCursor: string | null = null;
 let latestLogsMissing = false;
 let latestConfigError = "";
-
-function formatZodError(error: ZodError) {
-  return error.errors
-    .map((issue) => {
-      const path = issue.path.length > 0 ? issue.path.join(".") : "payload";
-      return `${path}: ${issue.message}`;
-    })
-    .join("; ");
-}
+// Live mode follows the log over GET /api/logs/stream. Without it the view is a one-off
+// GET /api/logs, for paging back and reading archives, and is only reloaded on request.
+let isLogLiveMode = true;
+let logEventSource: EventSource | null = null;
+let logFilterTimer: ReturnType<typeof setTimeout> | undefined;
+let scheduleHours: ScheduleHours = createScheduleHours(() => false);
+// The grid works in whole hours; keep the loaded ranges as-is until the grid is edited.
+let loadedScheduleWeekly: StatusSchedule["weekly"];
+let keepLoadedScheduleWeekly = false;
 
 function setStatusMessage(kind: "ok" | "error" | "info", message: string) {
   if (!statusElement) return;
@@ -121,7 +356,7 @@ function getInput(id: string) {
   return document.getElementById(id);
 }
 
-function getNumericInput(id: string) {
+function getTextInput(id: string) {
   const element = getInput(id);
   if (!(element instanceof HTMLInputElement)) {
     throw new Error(`Missing input: ${id}`);
@@ -147,46 +382,432 @@ function setInputValue(id: string, value: string | number | boolean) {
   element.value = String(value);
 }
 
-function setFormValues(config: UiConfig) {
-  setInputValue("statusTtlSeconds", config.statusTtlSeconds);
-  setInputValue("alwaysOverride", config.alwaysOverride);
-  setInputValue("cacheMaxAgeSeconds", config.cacheMaxAgeSeconds);
-  setInputValue(
-    "emptyReadConfirmWindowSeconds",
-    config.emptyReadConfirmWindowSeconds
+function renderStatusTemplatePreview() {
+  if (!statusTemplatePreviewElement) return;
+  const template =
+    getTextInput("statusTemplate").value.trim() ||
+    DEFAULT_CONFIG.statusTemplate;
+  const problem = validateStatusTemplate(template);
+  statusTemplatePreviewElement.classList.toggle("is-error", Boolean(problem));
+  if (problem) {
+    statusTemplatePreviewElement.textContent = problem;
+    return;
+  }
+  const preview = renderStatusTemplate(template, STATUS_TEMPLATE_PREVIEW_TRACK);
+  statusTemplatePreviewElement.textContent = `Preview (${
+    Array.from(preview).length
+  }/${SLACK_STATUS_TEXT_MAX_LENGTH}): ${preview}`;
+}
+
+function createScheduleHours(
+  isActive: (day: Weekday, hour: number) => boolean
+): ScheduleHours {
+  return Object.fromEntries(
+    WEEKDAYS.map((day) => [
+      day,
+      Array.from({ length: HOURS_PER_DAY }, (_value, hour) =>
+        isActive(day, hour)
+      ),
+    ])
+  ) as ScheduleHours;
+}
+
+function weeklyRangesToHours(weekly: StatusSchedule["weekly"]) {
+  let isRounded = false;
+  const hours = createScheduleHours((day, hour) =>
+    (weekly?.[day] ?? []).some((range) => {
+      const start = timeOfDayToMinutes(range.start);
+      const end = timeOfDayToMinutes(range.end);
+      if (start % 60 !== 0 || end % 60 !== 0) isRounded = true;
+      return hour * 60 < end && (hour + 1) * 60 > start;
+    })
+  );
+  return { hours, isRounded };
+}
+
+function formatHour(hour: number) {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+function hoursToWeeklyRanges(hours: ScheduleHours) {
+  const weekly: NonNullable<StatusSchedule["weekly"]> = {};
+  for (const day of WEEKDAYS) {
+    const ranges = [];
+    let rangeStart: number | undefined;
+    for (let hour = 0; hour <= HOURS_PER_DAY; hour += 1) {
+      const isActive = hour < HOURS_PER_DAY && hours[day][hour];
+      if (isActive && rangeStart === undefined) rangeStart = hour;
+      if (!isActive && rangeStart !== undefined) {
+        ranges.push({ start: formatHour(rangeStart), end: formatHour(hour) });
+        rangeStart = undefined;
+      }
+    }
+    if (ranges.length > 0) weekly[day] = ranges;
+  }
+  return weekly;
+}
+
+function renderScheduleGrid() {
+  if (!scheduleGridElement) return;
+  const hourLabels = Array.from(
+    { length: HOURS_PER_DAY },
+    (_value, hour) =>
+      `<span class="schedule-hour-label">${hour % 3 === 0 ? hour : ""}</span>`
+  );
+  const rows = WEEKDAYS.map((day) => {
+    const cells = scheduleHours[day].map(
+      (isActive, hour) =>
+        `<button type="button" class="schedule-cell${
+          isActive ? " is-active" : ""
+        }" data-day="${day}" data-hour="${hour}" aria-pressed="${isActive}" title="${day} ${formatHour(
+          hour
+        )}-${formatHour(hour + 1)}"></button>`
+    );
+    return [
+      `<button type="button" class="schedule-day-btn" data-day="${day}">${day}</button>`,
+      ...cells,
+    ].join("");
+  });
+  scheduleGridElement.innerHTML = [
+    "<span></span>",
+    ...hourLabels,
+    ...rows,
+  ].join("");
+  scheduleGridElement.classList.toggle(
+    "is-disabled",
+    !getCheckboxInput("scheduleEnabled").checked
   );
 }
 
-function readNonNegativeNumber(id: string, label: string) {
-  const input = getNumericInput(id);
-  const value = input.value.trim();
-  if (!value) throw new Error(`${label} is required.`);
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed) || parsed < 0) {
-    throw new Error(`${label} must be a non-negative number.`);
+function isWeekday(value: string | undefined): value is Weekday {
+  return (WEEKDAYS as readonly string[]).includes(value ?? "");
+}
+
+function toggleScheduleCell(target: HTMLElement) {
+  const day = target.dataset.day;
+  if (!isWeekday(day)) return;
+  if (target.classList.contains("schedule-day-btn")) {
+    const isWholeDayActive = scheduleHours[day].every(Boolean);
+    scheduleHours[day] = scheduleHours[day].map(() => !isWholeDayActive);
+  } else {
+    const hour = Number(target.dataset.hour);
+    if (!Number.isInteger(hour)) return;
+    scheduleHours[day][hour] = !scheduleHours[day][hour];
   }
-  return parsed;
+  keepLoadedScheduleWeekly = false;
+  if (scheduleNoticeElement) scheduleNoticeElement.textContent = "";
+  renderScheduleGrid();
 }
 
-function collectFormValues(): UiConfig {
+function setScheduleValues(schedule: StatusSchedule | null) {
+  setInputValue("scheduleEnabled", schedule !== null);
+  setInputValue("scheduleTimezone", schedule?.timezone ?? "");
+  setInputValue(
+    "scheduleClearWhenQuiet",
+    schedule?.clearOwnedStatusWhenQuiet === true
+  );
+  if (scheduleHolidaysElement) {
+    scheduleHolidaysElement.value = (schedule?.holidays ?? []).join("\n");
+  }
+
+  let isRounded = false;
+  if (schedule === null) {
+    scheduleHours = createScheduleHours(
+      (day, hour) =>
+        day !== "sat" &&
+        day !== "sun" &&
+        hour >= DEFAULT_SCHEDULE_WORKING_HOURS.start &&
+        hour < DEFAULT_SCHEDULE_WORKING_HOURS.end
+    );
+  } else if (schedule.weekly === undefined) {
+    // No weekly ranges means every hour is allowed.
+    scheduleHours = createScheduleHours(() => true);
+  } else {
+    ({ hours: scheduleHours, isRounded } = weeklyRangesToHours(
+      schedule.weekly
+    ));
+  }
+  loadedScheduleWeekly = schedule?.weekly;
+  keepLoadedScheduleWeekly = schedule !== null;
+  if (scheduleNoticeElement) {
+    scheduleNoticeElement.textContent = isRounded
+      ? "Some ranges are not on whole hours; editing the grid rounds them."
+      : "";
+  }
+  renderScheduleGrid();
+}
+
+// Validated together with the rest of the config, so problems show up next to the grid.
+function collectSchedule(): StatusSchedule | undefined {
+  if (!getCheckboxInput("scheduleEnabled").checked) return undefined;
+  const timezone = getTextInput("scheduleTimezone").value.trim();
+  const holidays = (scheduleHolidaysElement?.value ?? "")
+    .split(/\s+/)
+    .filter(Boolean);
   return {
-    statusTtlSeconds: readNonNegativeNumber(
-      "statusTtlSeconds",
-      "Status TTL (seconds)"
-    ),
-    alwaysOverride: getCheckboxInput("alwaysOverride").checked,
-    cacheMaxAgeSeconds: readNonNegativeNumber(
-      "cacheMaxAgeSeconds",
-      "Cache max age (seconds)"
-    ),
-    emptyReadConfirmWindowSeconds: readNonNegativeNumber(
-      "emptyReadConfirmWindowSeconds",
-      "Empty read window (seconds)"
-    ),
+    timezone: timezone || undefined,
+    weekly: keepLoadedScheduleWeekly
+      ? loadedScheduleWeekly
+      : hoursToWeeklyRanges(scheduleHours),
+    holidays: holidays.length > 0 ? holidays : undefined,
+    clearOwnedStatusWhenQuiet: getCheckboxInput("scheduleClearWhenQuiet")
+      .checked,
+  };
+}
+
+function unwrapFieldSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrapFieldSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrapFieldSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return unwrapFieldSchema(schema._def.in);
+  }
+  return schema;
+}
+
+function getFieldSchema(key: ConfigFieldKey) {
+  return unwrapFieldSchema(configObjectSchema.shape[key]);
+}
+
+function getFieldWidget(key: ConfigFieldKey): ConfigFieldWidget {
+  const schema = getFieldSchema(key);
+  if (schema instanceof z.ZodNumber) return "number";
+  if (schema instanceof z.ZodBoolean) return "checkbox";
+  if (schema instanceof z.ZodEnum) return "select";
+  if (schema instanceof z.ZodString) return "text";
+  // A token given inline or as a reference to where it is stored.
+  if (schema instanceof z.ZodUnion) return "secret";
+  return "json";
+}
+
+// An exclusive minimum, such as for a positive number, has no HTML equivalent; the
+// schema check on save reports it instead.
+function getFieldMinimum(key: ConfigFieldKey) {
+  const schema = getFieldSchema(key);
+  if (!(schema instanceof z.ZodNumber)) return undefined;
+  const check = schema._def.checks.find((item) => item.kind === "min");
+  return check?.kind === "min" && check.inclusive ? check.value : undefined;
+}
+
+function getFieldDefault(key: ConfigFieldKey): unknown {
+  return (DEFAULT_CONFIG as Partial<Record<ConfigFieldKey, unknown>>)[key];
+}
+
+function getGeneratedFieldKeys() {
+  return (Object.keys(CONFIG_FIELDS) as ConfigFieldKey[]).filter(
+    (key) => !CONFIG_FIELDS[key].custom
+  );
+}
+
+function renderFieldControl(key: ConfigFieldKey, checkboxLabel: string) {
+  const widget = getFieldWidget(key);
+  const defaultValue = getFieldDefault(key);
+  const formattedDefault =
+    typeof defaultValue === "string"
+      ? defaultValue
+      : JSON.stringify(defaultValue);
+  const placeholder =
+    defaultValue === undefined
+      ? ""
+      : ` placeholder="${escapeHtml(`Default: ${formattedDefault}`)}"`;
+
+  if (widget === "checkbox") {
+    return `<label class="checkbox-row" for="${key}"><input id="${key}" name="${key}" type="checkbox" /><span>${escapeHtml(
+      checkboxLabel
+    )}</span></label>`;
+  }
+  if (widget === "select") {
+    const schema = getFieldSchema(key);
+    const options: string[] = schema instanceof z.ZodEnum ? schema.options : [];
+    return `<select id="${key}" name="${key}"><option value="">Default (${escapeHtml(
+      formattedDefault
+    )})</option>${options
+      .map(
+        (option) =>
+          `<option value="${escapeHtml(option)}">${escapeHtml(option)}</option>`
+      )
+      .join("")}</select>`;
+  }
+  if (widget === "json") {
+    return `<textarea id="${key}" name="${key}" rows="5" spellcheck="false"${placeholder}></textarea>`;
+  }
+  if (widget === "number") {
+    const minimum = getFieldMinimum(key);
+    const min = minimum === undefined ? "" : ` min="${minimum}"`;
+    return `<input id="${key}" name="${key}" type="number"${min} step="any" inputmode="decimal"${placeholder} />`;
+  }
+  return `<input id="${key}" name="${key}" type="text" autocomplete="off" spellcheck="false"${placeholder} />`;
+}
+
+function renderConfigFields() {
+  if (!configFieldsElement) return;
+  const keys = Object.keys(CONFIG_FIELDS) as ConfigFieldKey[];
+  const customFields = keys.flatMap((key) => {
+    const field = CONFIG_FIELDS[key].custom ? getInput(`${key}-field`) : null;
+    return field ? [{ key, field }] : [];
+  });
+  configFieldsElement.innerHTML = CONFIG_FIELD_GROUPS.map((group) => {
+    const fields = keys.map((key) => {
+      const descriptor = CONFIG_FIELDS[key];
+      if (descriptor.group !== group) return "";
+      if (descriptor.custom) return `<div data-field-slot="${key}"></div>`;
+      return [
+        `<div class="field${descriptor.wide ? " is-wide" : ""}">`,
+        '<div class="field-title">',
+        `<label for="${key}">${escapeHtml(descriptor.label)}</label>`,
+        '<span class="tooltip-anchor">',
+        `<button type="button" class="info-trigger" aria-label="About ${escapeHtml(
+          descriptor.label.toLowerCase()
+        )}" aria-describedby="tip-${key}">i</button>`,
+        `<span id="tip-${key}" class="tooltip" role="tooltip">${escapeHtml(
+          descriptor.help
+        )}</span>`,
+        "</span>",
+        "</div>",
+        renderFieldControl(key, descriptor.checkboxLabel ?? descriptor.label),
+        `<p id="${key}-error" class="field-error" hidden></p>`,
+        "</div>",
+      ].join("");
+    });
+    return `<h3 class="form-group-title">${group}</h3>${fields.join("")}`;
+  }).join("");
+  for (const { key, field } of customFields) {
+    configFieldsElement
+      .querySelector(`[data-field-slot="${key}"]`)
+      ?.replaceWith(field);
+  }
+}
+
+function setConfigFieldValue(key: ConfigFieldKey, value: unknown) {
+  const element = getInput(key);
+  if (element instanceof HTMLInputElement && element.type === "checkbox") {
+    element.checked = (value ?? getFieldDefault(key)) === true;
+    return;
+  }
+  if (
+    !(element instanceof HTMLInputElement) &&
+    !(element instanceof HTMLSelectElement) &&
+    !(element instanceof HTMLTextAreaElement)
+  ) {
+    return;
+  }
+  if (value === undefined) {
+    element.value = "";
+  } else if (typeof value === "string" || typeof value === "number") {
+    element.value = String(value);
+  } else {
+    element.value = JSON.stringify(value, null, 2);
+  }
+}
+
+function parseJsonField(value: string) {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    throw new Error("Must be valid JSON.");
+  }
+}
+
+// Empty fields are left out of the config, so they keep using the default.
+function readConfigFieldValue(key: ConfigFieldKey): unknown {
+  const element = getInput(key);
+  const widget = getFieldWidget(key);
+  if (element instanceof HTMLInputElement && widget === "checkbox") {
+    return element.checked === getFieldDefault(key)
+      ? undefined
+      : element.checked;
+  }
+  if (
+    !(element instanceof HTMLInputElement) &&
+    !(element instanceof HTMLSelectElement) &&
+    !(element instanceof HTMLTextAreaElement)
+  ) {
+    return undefined;
+  }
+  const value = element.value.trim();
+  if (value === "") return undefined;
+  if (widget === "number") return Number(value);
+  if (widget === "json") return parseJsonField(value);
+  if (widget === "secret" && value.startsWith("{")) {
+    return parseJsonField(value);
+  }
+  return value;
+}
+
+function setFormValues(config: UiConfig) {
+  setInputValue("statusTemplate", config.statusTemplate ?? "");
+  renderStatusTemplatePreview();
+  for (const key of getGeneratedFieldKeys()) {
+    setConfigFieldValue(key, config[key]);
+  }
+  setScheduleValues(config.schedule ?? null);
+  clearFieldErrors();
+}
+
+function collectFormValues(): {
+  values: Record<string, unknown>;
+  issues: ConfigIssue[];
+} {
+  const issues: ConfigIssue[] = [];
+  const values: Record<string, unknown> = {
+    statusTemplate: getTextInput("statusTemplate").value.trim() || undefined,
+    schedule: collectSchedule(),
   };
+  for (const key of getGeneratedFieldKeys()) {
+    try {
+      values[key] = readConfigFieldValue(key);
+    } catch (error) {
+      issues.push({
+        path: key,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { values, issues };
+}
+
+function clearFieldErrors() {
+  for (const element of document.querySelectorAll<HTMLElement>(
+    ".field-error"
+  )) {
+    element.textContent = "";
+    element.hidden = true;
+  }
+}
+
+// Shows each issue under its field; returns the ones that belong to no single field.
+function showFieldErrors(issues: ConfigIssue[]) {
+  clearFieldErrors();
+  const unplaced: string[] = [];
+  for (const issue of issues) {
+    const [key, ...rest] = issue.path.split(".");
+    const element = key in CONFIG_FIELDS ? getInput(`${key}-error`) : null;
+    const message =
+      rest.length > 0 ? `${rest.join(".")}: ${issue.message}` : issue.message;
+    if (!element) {
+      unplaced.push(`${issue.path || "config"}: ${issue.message}`);
+      continue;
+    }
+    element.textContent = element.textContent
+      ? `${element.textContent} ${message}`
+      : message;
+    element.hidden = false;
+  }
+  return unplaced;
+}
+
+function reportConfigIssues(issues: ConfigIssue[]) {
+  const unplaced = showFieldErrors(issues);
+  setStatusMessage(
+    "error",
+    ["Fix the highlighted fields.", ...unplaced].join(" ")
+  );
 }
 
-function setActiveTab(nextTab: "config" | "logs") {
+function setActiveTab(nextTab: TabName) {
   activeTab = nextTab;
   for (const tabButton of tabButtons) {
     const tabName = tabButton.dataset.tab;
@@ -196,26 +817,31 @@ function setActiveTab(nextTab: "config" | "logs") {
     tabButton.setAttribute("tabindex", isActive ? "0" : "-1");
   }
 
-  const configPanel = tabPanels.config;
-  const logsPanel = tabPanels.logs;
-  if (configPanel) {
-    const isConfigVisible = nextTab === "config";
-    configPanel.hidden = !isConfigVisible;
-    configPanel.setAttribute("aria-hidden", String(!isConfigVisible));
-  }
-  if (logsPanel) {
-    const isLogsVisible = nextTab === "logs";
-    logsPanel.hidden = !isLogsVisible;
-    logsPanel.setAttribute("aria-hidden", String(!isLogsVisible));
+  for (const tabName of TAB_ORDER) {
+    const panel = tabPanels[tabName];
+    if (!panel) continue;
+    const isVisible = nextTab === tabName;
+    panel.hidden = !isVisible;
+    panel.setAttribute("aria-hidden", String(!isVisible));
   }
 }
 
-function activateTab(nextTab: "config" | "logs") {
+function isTabName(value: string | undefined): value is TabName {
+  return (TAB_ORDER as readonly string[]).includes(value ?? "");
+}
+
+function activateTab(nextTab: TabName) {
   setActiveTab(nextTab);
-  if (nextTab === "logs" && !logsLoadedOnce) {
+  if (nextTab !== "logs") stopLogStream();
+  if (nextTab === "logs" && isLogLiveMode) {
+    startLogStream();
+  } else if (nextTab === "logs" && !logsLoadedOnce) {
     logsLoadedOnce = true;
     void loadLogsFromServer();
   }
+  // Saves from the Config tab add versions, so the list is always refetched.
+  if (nextTab === "history") void loadConfigHistory();
+  if (nextTab === "dashboard") void loadDashboardFromServer();
 }
 
 function isLogStream(value: string): value is LogStream {
@@ -258,22 +884,18 @@ function escapeHtml(input: string) {
     .replaceAll("'", "&#39;");
 }
 
-function escapeRegExp(value: string) {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
-function highlightText(text: string, searchTerm: string) {
-  if (!searchTerm) return escapeHtml(text);
-  const pattern = new RegExp(`(${escapeRegExp(searchTerm)})`, "gi");
-  return text
-    .split(pattern)
-    .map((part) => {
-      if (part.toLowerCase() === searchTerm.toLowerCase()) {
-        return `<mark>${escapeHtml(part)}</mark>`;
-      }
-      return escapeHtml(part);
-    })
-    .join("");
+function highlightText(text: string, searchPattern: RegExp | undefined) {
+  if (!searchPattern) return escapeHtml(text);
+  let html = "";
+  let lastIndex = 0;
+  for (const match of text.matchAll(searchPattern)) {
+    if (!match[0]) continue;
+    html += `${escapeHtml(
+      text.slice(lastIndex, match.index)
+    )}<mark>${escapeHtml(match[0])}</mark>`;
+    lastIndex = match.index + match[0].length;
+  }
+  return html + escapeHtml(text.slice(lastIndex));
 }
 
 function getStderrLineClass(line: string) {
@@ -289,73 +911,138 @@ function getStderrLineClass(line: string) {
   return "";
 }
 
-function renderLogLine(line: string, searchTerm: string) {
-  const structuredMatch =
-    /^(\d{4}-\d{2}-\d{2}T\S+)\s+(DEBUG|INFO|WARN|ERROR)\s+(.*)$/.exec(line);
-
-  if (!structuredMatch) {
+function renderLogLine(
+  line: string,
+  entry: LogEntry | undefined,
+  searchPattern: RegExp | undefined
+) {
+  if (!entry) {
     if (activeLogStream === "stderr") {
       const stderrLineClass = getStderrLineClass(line);
       if (stderrLineClass) {
         return `<div class="log-line ${stderrLineClass}">${highlightText(
           line,
-          searchTerm
+          searchPattern
         )}</div>`;
       }
     }
-    return `<div class="log-line">${highlightText(line, searchTerm)}</div>`;
+    return `<div class="log-line">${highlightText(line, searchPattern)}</div>`;
   }
 
-  const timestamp = structuredMatch[1];
-  const level = structuredMatch[2];
-  const rest = structuredMatch[3];
-  const metadataMatch = /^(.*?)(\s+\{.*\})$/.exec(rest);
-  const message = metadataMatch ? metadataMatch[1] : rest;
-  const metadata = metadataMatch ? metadataMatch[2].trim() : "";
-  const levelClass = `is-${level.toLowerCase()}`;
+  const metadata = entry.metadata ? JSON.stringify(entry.metadata) : "";
+  const levelClass = `is-${entry.level.toLowerCase()}`;
 
   return [
     '<div class="log-line">',
-    `<span class="log-ts">${highlightText(timestamp, searchTerm)}</span> `,
+    `<span class="log-ts">${highlightText(entry.ts, searchPattern)}</span> `,
     `<span class="log-level ${levelClass}">${highlightText(
-      level,
-      searchTerm
+      entry.level,
+      searchPattern
     )}</span> `,
-    `<span class="log-message">${highlightText(message, searchTerm)}</span>`,
+    entry.runId
+      ? `<span class="log-run">${highlightText(
+          entry.runId,
+          searchPattern
+        )}</span> `
+      : "",
+    `<span class="log-message">${highlightText(
+      entry.msg,
+      searchPattern
+    )}</span>`,
     metadata
-      ? ` <span class="log-json">${highlightText(metadata, searchTerm)}</span>`
+      ? ` <span class="log-json">${highlightText(
+          metadata,
+          searchPattern
+        )}</span>`
       : "",
     "</div>",
   ].join("");
 }
 
+// The search box takes a regular expression, as GET /api/logs does; an invalid one
+// highlights nothing and the server reports it.
+function readLogSearchPattern() {
+  const search = logSearchInput?.value.trim() ?? "";
+  if (!search) return undefined;
+  try {
+    return new RegExp(search, "gi");
+  } catch {
+    return undefined;
+  }
+}
+
+// datetime-local inputs hold local time without a zone; the server gets UTC.
+function readLogTimeInput(input: HTMLInputElement | null) {
+  const time = input?.value ? new Date(input.value) : undefined;
+  return time && !Number.isNaN(time.getTime()) ? time.toISOString() : "";
+}
+
+// Filters left empty are not sent.
+function buildLogsQuery(cursor?: string) {
+  const query = {
+    stream: activeLogStream,
+    limit: String(LOG_LINE_LIMIT),
+    level: logLevelSelect?.value ?? "",
+    since: readLogTimeInput(logSinceInput),
+    until: readLogTimeInput(logUntilInput),
+    runId: logRunInput?.value.trim() ?? "",
+    metadata: logMetadataInput?.value.trim() ?? "",
+    q: logSearchInput?.value.trim() ?? "",
+    cursor: cursor ?? "",
+    archive: logArchiveSelect?.value ?? "",
+  } satisfies Record<keyof LogsQuery, string>;
+  return new URLSearchParams(
+    Object.entries(query).filter(([, value]) => value !== "")
+  );
+}
+
+function hasLogFilters() {
+  const query = buildLogsQuery();
+  return ["level", "since", "until", "runId", "metadata", "q"].some((key) =>
+    query.has(key)
+  );
+}
+
+// Offers the run ids in the loaded lines, newest first.
+function renderLogRunIds(entries: (LogEntry | undefined)[]) {
+  if (!logRunIdsElement) return;
+  const runIds = [
+    ...new Set(entries.flatMap((entry) => (entry?.runId ? [entry.runId] : []))),
+  ].reverse();
+  logRunIdsElement.innerHTML = runIds
+    .map((runId) => `<option value="${escapeHtml(runId)}"></option>`)
+    .join("");
+}
+
 function renderLogs() {
-  if (!logOutputElement || !logSearchInput || !logMetaElement) return;
-  const searchTerm = logSearchInput.value.trim();
-  const normalizedSearch = searchTerm.toLowerCase();
-  const filteredLines = normalizedSearch
-    ? latestLogLines.filter((line) =>
-        line.toLowerCase().includes(normalizedSearch)
-      )
-    : latestLogLines;
+  if (!logOutputElement || !logMetaElement) return;
+  const searchPattern = readLogSearchPattern();
+  const entries = latestLogLines.map((line) => ({
+    line,
+    entry: parseLogLine(line),
+  }));
+  renderLogRunIds(entries.map(({ entry }) => entry));
   const visibleLines =
     activeLogSortDirection === "newest-first"
-      ? [...filteredLines].reverse()
-      : filteredLines;
+      ? [...entries].reverse()
+      : entries;
 
   if (visibleLines.length === 0) {
     logOutputElement.innerHTML = `<div class="log-empty">${
       latestLogsMissing
         ? "Log file does not exist yet."
-        : normalizedSearch
-        ? "No lines match your search."
+        : hasLogFilters()
+        ? "No lines match your search or filters."
         : "No log lines to display."
     }</div>`;
   } else {
     logOutputElement.innerHTML = visibleLines
-      .map((line) => renderLogLine(line, searchTerm))
+      .map(({ line, entry }) => renderLogLine(line, entry, searchPattern))
       .join("");
   }
+  if (logOlderButton) {
+    logOlderButton.hidden = isLogLiveMode || latestLogsCursor === null;
+  }
 
   const parts = [
     activeLogStream.toUpperCase(),
@@ -365,8 +1052,9 @@ function renderLogs() {
         : "oldest first"
     }`,
     latestLogPath ? `path: ${latestLogPath}` : "",
-    `showing ${visibleLines.length}/${latestLogLines.length} loaded`,
-    latestLogsTruncated ? `tail of ${latestTotalLines} total lines` : "",
+    `showing ${latestLogLines.length} lines`,
+    hasLogFilters() ? "filtered" : "",
+    latestLogsTruncated ? "older lines not loaded" : "",
   ].filter(Boolean);
 
   let message = parts.join(" • ");
@@ -376,6 +1064,140 @@ function renderLogs() {
   logMetaElement.textContent = message;
 }
 
+function renderWorkspaces(workspaces: WorkspaceSummary[]) {
+  if (!workspaceListElement) return;
+  if (workspaces.length === 0) {
+    workspaceListElement.innerHTML =
+      '<li class="workspace-item">No workspaces configured yet.</li>';
+    return;
+  }
+  workspaceListElement.innerHTML = workspaces
+    .map((workspace) => {
+      const result = workspace.lastResult;
+      const outcome = result
+        ? `<span class="workspace-outcome is-${result.outcome}">${result.outcome}</span>`
+        : '<span class="workspace-outcome">No runs yet</span>';
+      const details = `${workspace.statusEmoji} ${workspace.statusTemplate}${
+        workspace.alwaysOverride ? " · always override" : ""
+      }`;
+      const resultLine = result
+        ? `<span class="workspace-result">${escapeHtml(
+            result.message
+          )} (since ${new Date(result.since * 1000).toLocaleString()})</span>`
+        : "";
+      const actions = isSlackOAuthEnabled
+        ? `<span class="workspace-actions"><a href="/api/slack/oauth/start?${new URLSearchParams(
+            { workspace: workspace.name }
+          ).toString()}">Reconnect</a></span>`
+        : "";
+      return `<li class="workspace-item"><span class="workspace-name">${escapeHtml(
+        workspace.name
+      )}</span>${outcome}<span class="workspace-details">${escapeHtml(
+        details
+      )}</span>${resultLine}${actions}</li>`;
+    })
+    .join("");
+}
+
+function renderConnectionResults(results: ConnectionResult[]) {
+  if (!connectionResultsElement) return;
+  connectionResultsElement.innerHTML = results
+    .map((result) => {
+      const outcome = `<span class="workspace-outcome is-${
+        result.ok ? "updated" : "failed"
+      }">${result.ok ? "Connected" : "Problem"}</span>`;
+      const identity = result.team
+        ? `${result.user ?? "unknown user"} in ${result.team}${
+            result.url ? ` (${result.url})` : ""
+          }`
+        : "Not connected";
+      const scopes =
+        result.scopes === undefined
+          ? ""
+          : `<span class="workspace-scopes">Scopes: ${escapeHtml(
+              result.scopes === null
+                ? "not reported by Slack"
+                : result.scopes.join(", ") || "none"
+            )}</span>`;
+      const error = result.error
+        ? `<span class="workspace-result">${escapeHtml(result.error)}</span>`
+        : "";
+      return `<li class="workspace-item"><span class="workspace-name">${escapeHtml(
+        result.workspace
+      )}</span>${outcome}<span class="workspace-details">${escapeHtml(
+        `${identity} · token from ${result.tokenSource}`
+      )}</span>${scopes}${error}</li>`;
+    })
+    .join("");
+}
+
+async function testSlackConnection() {
+  if (!connectionResultsElement) return;
+  if (slackTestButton) slackTestButton.disabled = true;
+  connectionResultsElement.innerHTML =
+    '<li class="workspace-item">Testing...</li>';
+  try {
+    const response = await fetch("/api/slack/test", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify({} satisfies SlackTestRequest),
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      const parsedError = apiErrorResponseSchema.safeParse(payload);
+      if (parsedError.success) throw new Error(parsedError.data.error);
+      throw new Error("Connection test failed.");
+    }
+    const parsed = slackTestResponseSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new Error(formatZodError(parsed.error));
+    }
+    renderConnectionResults(parsed.data.results);
+  } catch (error) {
+    connectionResultsElement.innerHTML = `<li class="workspace-item">${escapeHtml(
+      error instanceof Error ? error.message : "Connection test failed."
+    )}</li>`;
+  } finally {
+    if (slackTestButton) slackTestButton.disabled = false;
+  }
+}
+
+async function loadWorkspacesFromServer() {
+  try {
+    const oauthResponse = await fetch("/api/slack/oauth", {
+      headers: { Accept: "application/json" },
+      credentials: "include",
+    });
+    if (oauthResponse.ok) {
+      const parsedOAuth = oauthStatusResponseSchema.safeParse(
+        await oauthResponse.json()
+      );
+      isSlackOAuthEnabled = parsedOAuth.success && parsedOAuth.data.enabled;
+      if (slackConnectLink) slackConnectLink.hidden = !isSlackOAuthEnabled;
+    }
+
+    const response = await fetch("/api/workspaces", {
+      headers: { Accept: "application/json" },
+      credentials: "include",
+    });
+    if (!response.ok) return;
+    const parsed = workspacesResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error(formatZodError(parsed.error));
+    }
+    renderWorkspaces(parsed.data.workspaces);
+  } catch (error) {
+    if (!workspaceListElement) return;
+    workspaceListElement.innerHTML = `<li class="workspace-item">${escapeHtml(
+      error instanceof Error ? error.message : "Failed to load workspaces."
+    )}</li>`;
+  }
+}
+
 async function loadConfigFromServer() {
   setStatusMessage("info", "Loading config...");
   try {
@@ -393,20 +1215,22 @@ async function loadConfigFromServer() {
     }
 
     const payload = await response.json();
-    const parsed = configResponseSchema.safeParse(payload);
+    const parsed = uiConfigResponseSchema.safeParse(payload);
     if (!parsed.success) {
       throw new Error(formatZodError(parsed.error));
     }
 
     lastLoadedConfig = parsed.data.config;
+    loadedConfigVersion = parsed.data.meta.version;
     setFormValues(parsed.data.config);
-    if (metaPathElement)
-      metaPathElement.textContent = parsed.data.meta?.path ?? "Unknown";
+    if (metaPathElement) metaPathElement.textContent = parsed.data.meta.path;
     if (metaExistsElement) {
-      metaExistsElement.textContent =
-        parsed.data.meta?.exists === false ? "No (will create)" : "Yes";
+      metaExistsElement.textContent = parsed.data.meta.exists
+        ? "Yes"
+        : "No (will create)";
     }
     setStatusMessage("ok", "Config loaded.");
+    void loadWorkspacesFromServer();
   } catch (error) {
     setStatusMessage(
       "error",
@@ -415,22 +1239,25 @@ async function loadConfigFromServer() {
   }
 }
 
+// Every write names the version it was based on; "none yet" when there was no config file.
+function getConfigVersionHeaders(): Record<string, string> {
+  return loadedConfigVersion
+    ? { "If-Match": `"${loadedConfigVersion}"` }
+    : { "If-None-Match": "*" };
+}
+
 async function saveConfigToServer() {
-  let config: UiConfig;
-  try {
-    const values = collectFormValues();
-    const parsed = uiConfigSchema.safeParse(values);
-    if (!parsed.success) {
-      throw new Error(formatZodError(parsed.error));
-    }
-    config = parsed.data;
-  } catch (error) {
-    setStatusMessage(
-      "error",
-      error instanceof Error ? error.message : "Validation failed."
-    );
+  const { values, issues } = collectFormValues();
+  if (issues.length > 0) {
+    reportConfigIssues(issues);
     return;
   }
+  const parsedValues = configSchema.safeParse(values);
+  if (!parsedValues.success) {
+    reportConfigIssues(getConfigIssues(parsedValues.error));
+    return;
+  }
+  clearFieldErrors();
 
   setStatusMessage("info", "Saving...");
   if (saveButton) saveButton.disabled = true;
@@ -440,20 +1267,32 @@ async function saveConfigToServer() {
       headers: {
         "Content-Type": "application/json",
         Accept: "application/json",
+        ...getConfigVersionHeaders(),
       },
       credentials: "include",
-      body: JSON.stringify(config),
+      body: JSON.stringify(parsedValues.data),
     });
     const payload = await response.json();
-    const parsed = statusResponseSchema.safeParse(payload);
+    if (!response.ok) {
+      const parsedError = apiErrorResponseSchema.safeParse(payload);
+      if (!parsedError.success) throw new Error("Save failed.");
+      if (parsedError.data.issues && parsedError.data.issues.length > 0) {
+        reportConfigIssues(parsedError.data.issues);
+        return;
+      }
+      throw new Error(parsedError.data.error);
+    }
+    const parsed = uiConfigResponseSchema.safeParse(payload);
     if (!parsed.success) {
       throw new Error(formatZodError(parsed.error));
     }
-    if (!response.ok || parsed.data.ok === false) {
-      throw new Error(parsed.data.error ?? "Save failed.");
-    }
+    // Shows newly entered tokens masked, as they come back after a reload.
+    lastLoadedConfig = parsed.data.config;
+    loadedConfigVersion = parsed.data.meta.version;
+    setFormValues(parsed.data.config);
+    if (metaExistsElement) metaExistsElement.textContent = "Yes";
     setStatusMessage("ok", "Saved.");
-    lastLoadedConfig = config;
+    void loadWorkspacesFromServer();
   } catch (error) {
     setStatusMessage(
       "error",
@@ -464,31 +1303,338 @@ async function saveConfigToServer() {
   }
 }
 
-async function loadLogsFromServer() {
-  if (logMetaElement) {
-    logMetaElement.textContent = `Loading ${activeLogStream} logs...`;
+function formatChangeValue(value: unknown) {
+  return value === undefined ? "(not set)" : JSON.stringify(value);
+}
+
+function renderConfigChange(change: ConfigChangeResponse) {
+  const description =
+    change.kind === "added"
+      ? `set to ${formatChangeValue(change.after)}`
+      : change.kind === "removed"
+      ? `removed (was ${formatChangeValue(change.before)})`
+      : `${formatChangeValue(change.before)} → ${formatChangeValue(
+          change.after
+        )}`;
+  return `<li><code>${escapeHtml(change.path)}</code> ${escapeHtml(
+    description
+  )}</li>`;
+}
+
+async function loadConfigHistory() {
+  if (!historyListElement) return;
+  if (historyReloadButton) historyReloadButton.disabled = true;
+  try {
+    const response = await fetch("/api/config/history", {
+      headers: { Accept: "application/json" },
+      credentials: "include",
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      const parsedError = apiErrorResponseSchema.safeParse(payload);
+      throw new Error(
+        parsedError.success ? parsedError.data.error : "Failed to load history."
+      );
+    }
+    const parsed = configHistoryResponseSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new Error(formatZodError(parsed.error));
+    }
+    const snapshots = parsed.data.snapshots;
+    if (snapshots.length === 0) {
+      historyListElement.innerHTML =
+        '<li class="workspace-item">No earlier versions yet. One is kept each time the config is saved.</li>';
+      return;
+    }
+    historyListElement.innerHTML = snapshots
+      .map((snapshot) => {
+        const summary = snapshot.error
+          ? snapshot.error
+          : snapshot.changes.length === 0
+          ? "Same as the current config."
+          : `Restoring changes ${snapshot.changes.length} setting${
+              snapshot.changes.length === 1 ? "" : "s"
+            }:`;
+        const changes =
+          snapshot.changes.length > 0
+            ? `<ul class="history-changes">${snapshot.changes
+                .map(renderConfigChange)
+                .join("")}</ul>`
+            : "";
+        const actions =
+          snapshot.error || snapshot.changes.length === 0
+            ? ""
+            : `<span class="workspace-actions"><button type="button" class="btn" data-restore-id="${escapeHtml(
+                snapshot.id
+              )}">Restore</button></span>`;
+        return `<li class="workspace-item"><span class="workspace-name">${escapeHtml(
+          new Date(snapshot.createdAt).toLocaleString()
+        )}</span><span class="workspace-details">${escapeHtml(
+          summary
+        )}</span>${changes}${actions}</li>`;
+      })
+      .join("");
+  } catch (error) {
+    historyListElement.innerHTML = `<li class="workspace-item">${escapeHtml(
+      error instanceof Error ? error.message : "Failed to load history."
+    )}</li>`;
+  } finally {
+    if (historyReloadButton) historyReloadButton.disabled = false;
   }
-  setLogsActionButtonsDisabled(true);
+}
+
+async function restoreConfigVersion(id: string) {
+  if (!window.confirm("Restore this version of the config?")) return;
+  try {
+    const response = await fetch(
+      `/api/config/history/${encodeURIComponent(id)}/restore`,
+      {
+        method: "POST",
+        headers: { Accept: "application/json", ...getConfigVersionHeaders() },
+        credentials: "include",
+      }
+    );
+    const payload = await response.json();
+    if (!response.ok) {
+      const parsedError = apiErrorResponseSchema.safeParse(payload);
+      throw new Error(
+        parsedError.success ? parsedError.data.error : "Restore failed."
+      );
+    }
+    const parsed = uiConfigResponseSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new Error(formatZodError(parsed.error));
+    }
+    lastLoadedConfig = parsed.data.config;
+    loadedConfigVersion = parsed.data.meta.version;
+    setFormValues(parsed.data.config);
+    if (historyMetaElement) {
+      historyMetaElement.textContent =
+        "Restored. The version it replaced was added to the history.";
+    }
+    void loadWorkspacesFromServer();
+    await loadConfigHistory();
+  } catch (error) {
+    if (historyMetaElement) {
+      historyMetaElement.textContent =
+        error instanceof Error ? error.message : "Restore failed.";
+    }
+  }
+}
+
+type SlackStatusSnapshot = NonNullable<LastRunWorkspace["slackStatus"]>;
+type WorkspaceCacheState = NonNullable<
+  StatusResponse["cache"]
+>["workspaces"][string];
+
+function formatSlackStatus(status: SlackStatusSnapshot | undefined) {
+  if (!status) return "(not read)";
+  if (status.text === "" && status.emoji === "") return "(empty)";
+  const expires =
+    status.expiration > 0
+      ? ` · expires ${new Date(status.expiration * 1000).toLocaleString()}`
+      : "";
+  return `${status.emoji} ${status.text}`.trim() + expires;
+}
+
+function renderPlayerRun(lastRun: LastRun) {
+  const player = lastRun.player;
+  let state: string = player?.state ?? "unknown";
+  let details = "The player was not read.";
+  if (player && !player.running) {
+    state = "not running";
+    details = `Spotify is not running (${player.source}).`;
+  } else if (player?.hidden) {
+    details = "The current track is hidden by the privacy filter.";
+  } else if (player?.track) {
+    const { artist, title, album, contextUri } = player.track;
+    details = `${artist} - ${title}${album ? ` · ${album}` : ""}${
+      contextUri ? ` · from ${contextUri}` : ""
+    }`;
+  } else if (player) {
+    details = "No track.";
+  }
+  return `<li class="workspace-item"><span class="workspace-name">Now playing</span><span class="workspace-outcome">${escapeHtml(
+    state
+  )}</span><span class="workspace-details">${escapeHtml(details)}</span></li>`;
+}
+
+// Why the run did or did not touch the status, in the order the updater decides it.
+function describeWorkspaceDecision(workspace: LastRunWorkspace) {
+  const parts: string[] = [];
+  if (workspace.ownership) {
+    parts.push(
+      `${workspace.ownership.owned ? "Ours" : "Not ours"}: ${
+        workspace.ownership.reason
+      }.`
+    );
+  }
+  if (workspace.safeToOverride !== undefined) {
+    parts.push(
+      workspace.safeToOverride
+        ? "Safe to override."
+        : "Set by another app or user; only overridden with alwaysOverride."
+    );
+  }
+  if (workspace.consecutiveEmptyReads) {
+    parts.push(`Empty reads in a row: ${workspace.consecutiveEmptyReads}.`);
+  }
+  return parts.join(" ");
+}
+
+function renderWorkspaceRun(
+  workspace: LastRunWorkspace,
+  cache: WorkspaceCacheState | undefined
+) {
+  const lines = [
+    `Slack status: ${formatSlackStatus(
+      workspace.statusAfter ?? workspace.slackStatus
+    )}`,
+    workspace.statusAfter
+      ? `Before this run: ${formatSlackStatus(workspace.slackStatus)}`
+      : "",
+    describeWorkspaceDecision(workspace),
+    cache?.lastNonEmptyNonOwned
+      ? `Restored when playback stops: ${formatSlackStatus(
+          cache.lastNonEmptyNonOwned
+        )}`
+      : "",
+  ].filter((line) => line !== "");
+  return `<li class="workspace-item"><span class="workspace-name">${escapeHtml(
+    workspace.name
+  )}</span><span class="workspace-outcome is-${workspace.outcome}">${
+    workspace.outcome
+  }</span><span class="workspace-details">${escapeHtml(
+    workspace.message
+  )}</span>${lines
+    .map((line) => `<span class="workspace-result">${escapeHtml(line)}</span>`)
+    .join("")}</li>`;
+}
+
+function renderDashboard(status: StatusResponse) {
+  if (!dashboardListElement) return;
+  const { lastRun, cache } = status;
+  const problems = [status.lastRunError, status.cacheError].filter(Boolean);
+  if (!lastRun) {
+    if (dashboardMetaElement) {
+      dashboardMetaElement.textContent = [
+        "The updater has not recorded a run yet.",
+        ...problems,
+      ].join(" ");
+    }
+    dashboardListElement.innerHTML = "";
+    return;
+  }
+
+  if (dashboardMetaElement) {
+    const finishedAt = new Date(lastRun.finishedAt * 1000).toLocaleString();
+    const duration = lastRun.finishedAt - lastRun.startedAt;
+    dashboardMetaElement.textContent = [
+      `Last run${
+        lastRun.runId ? ` ${lastRun.runId}` : ""
+      } finished ${finishedAt} (took ${duration}s, pid ${lastRun.pid}).`,
+      lastRun.error ? `It failed: ${lastRun.error}` : "",
+      ...problems,
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+  dashboardListElement.innerHTML = [
+    renderPlayerRun(lastRun),
+    ...lastRun.workspaces.map((workspace) =>
+      renderWorkspaceRun(workspace, cache?.workspaces[workspace.name])
+    ),
+  ].join("");
+}
+
+async function loadDashboardFromServer() {
+  if (dashboardReloadButton) dashboardReloadButton.disabled = true;
+  try {
+    const response = await fetch("/api/status", {
+      headers: { Accept: "application/json" },
+      credentials: "include",
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      const parsedError = apiErrorResponseSchema.safeParse(payload);
+      throw new Error(
+        parsedError.success ? parsedError.data.error : "Failed to load status."
+      );
+    }
+    const parsed = statusResponseSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new Error(formatZodError(parsed.error));
+    }
+    renderDashboard(parsed.data);
+  } catch (error) {
+    if (dashboardMetaElement) {
+      dashboardMetaElement.textContent =
+        error instanceof Error ? error.message : "Failed to load status.";
+    }
+  } finally {
+    if (dashboardReloadButton) dashboardReloadButton.disabled = false;
+  }
+}
 
+// Keeps the chosen archive while it is still listed.
+function renderLogArchives(archives: LogArchivesResponse["archives"]) {
+  if (!logArchiveSelect) return;
+  const selected = logArchiveSelect.value;
+  logArchiveSelect.innerHTML = [
+    '<option value="">Current log</option>',
+    ...archives.map(
+      (archive) =>
+        `<option value="${escapeHtml(archive.name)}">Rotated ${escapeHtml(
+          new Date(archive.rotatedAt * 1000).toLocaleString()
+        )} (${Math.max(1, Math.round(archive.size / 1024))} KB)</option>`
+    ),
+  ].join("");
+  logArchiveSelect.value = archives.some(({ name }) => name === selected)
+    ? selected
+    : "";
+}
+
+async function loadLogArchivesFromServer() {
   try {
     const response = await fetch(
-      `/api/logs?stream=${activeLogStream}&limit=2500`,
+      `/api/logs/archives?${new URLSearchParams({
+        stream: activeLogStream,
+      } satisfies Record<keyof LogArchivesQuery, string>)}`,
       {
         headers: { Accept: "application/json" },
         credentials: "include",
       }
     );
+    if (!response.ok) return;
+    const parsed = logArchivesResponseSchema.safeParse(await response.json());
+    if (parsed.success) renderLogArchives(parsed.data.archives);
+  } catch {
+    // The current log still loads; the list is offered again on the next reload.
+  }
+}
+
+// With `cursor`, loads the page before the lines shown and adds it above them.
+async function loadLogsFromServer(cursor?: string) {
+  if (logMetaElement) {
+    logMetaElement.textContent = `Loading ${activeLogStream} logs...`;
+  }
+  setLogsActionButtonsDisabled(true);
+
+  try {
+    if (!cursor) void loadLogArchivesFromServer();
+    const response = await fetch(`/api/logs?${buildLogsQuery(cursor)}`, {
+      headers: { Accept: "application/json" },
+      credentials: "include",
+    });
 
     if (response.status === 401) {
       throw new Error("Authentication required.");
     }
 
     const payload = await response.json();
-    const statusPayload = statusResponseSchema.safeParse(payload);
     if (!response.ok) {
-      if (statusPayload.success && statusPayload.data.error) {
-        throw new Error(statusPayload.data.error);
-      }
+      const parsedError = apiErrorResponseSchema.safeParse(payload);
+      if (parsedError.success) throw new Error(parsedError.data.error);
       throw new Error("Failed to load logs.");
     }
 
@@ -498,19 +1644,22 @@ async function loadLogsFromServer() {
     }
 
     latestLogPath = parsed.data.path;
-    latestLogLines = parsed.data.lines;
-    latestTotalLines = parsed.data.totalLines;
+    latestLogLines = cursor
+      ? [...parsed.data.lines, ...latestLogLines]
+      : parsed.data.lines;
     latestLogsTruncated = parsed.data.truncated;
+    latestLogsCursor = parsed.data.nextCursor;
     latestLogsMissing = parsed.data.missing;
     latestConfigError = parsed.data.configError ?? "";
     renderLogs();
   } catch (error) {
     latestLogPath = "";
     latestLogLines = [];
-    latestTotalLines = 0;
     latestLogsTruncated = false;
+    latestLogsCursor = null;
     latestLogsMissing = false;
     latestConfigError = "";
+    if (logOlderButton) logOlderButton.hidden = true;
     if (logOutputElement) {
       logOutputElement.innerHTML = `<div class="log-empty">${
         error instanceof Error
@@ -527,6 +1676,87 @@ async function loadLogsFromServer() {
   }
 }
 
+function applyLogStreamEvent(event: LogStreamEvent) {
+  if (event.type === "error") {
+    if (logMetaElement) {
+      logMetaElement.textContent = `Live updates: ${event.error}`;
+    }
+    return;
+  }
+  if (event.type === "reset") {
+    latestLogPath = event.path;
+    latestLogLines = event.lines;
+    latestLogsTruncated = event.truncated;
+    latestLogsMissing = event.missing;
+    latestConfigError = event.configError ?? "";
+  } else {
+    const lines = [...latestLogLines, ...event.lines];
+    latestLogLines = lines.slice(-LOG_LINE_LIMIT);
+    latestLogsTruncated ||= lines.length > latestLogLines.length;
+    latestLogsMissing = false;
+  }
+  renderLogs();
+}
+
+function startLogStream() {
+  stopLogStream();
+  // Paging does not apply; the stream starts from the newest lines.
+  latestLogsCursor = null;
+  const query = buildLogsQuery();
+  query.delete("archive"); // live mode always follows the current log
+  const source = new EventSource(`/api/logs/stream?${query}`);
+  source.addEventListener("message", (message) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message.data);
+    } catch {
+      return;
+    }
+    const parsed = logStreamEventSchema.safeParse(payload);
+    if (parsed.success) applyLogStreamEvent(parsed.data);
+  });
+  // EventSource reconnects by itself, and the server starts over with a reset.
+  source.addEventListener("error", () => {
+    if (logMetaElement) {
+      logMetaElement.textContent = "Live updates interrupted; reconnecting...";
+    }
+  });
+  logEventSource = source;
+}
+
+function stopLogStream() {
+  logEventSource?.close();
+  logEventSource = null;
+}
+
+function reloadLogs() {
+  if (isLogLiveMode) {
+    startLogStream();
+  } else {
+    void loadLogsFromServer();
+  }
+}
+
+// Typing in a filter reloads once it pauses.
+function scheduleLogsReload() {
+  clearTimeout(logFilterTimer);
+  logFilterTimer = setTimeout(reloadLogs, LOG_FILTER_DELAY_MS);
+}
+
+function setLogLiveMode(enabled: boolean) {
+  isLogLiveMode = enabled;
+  logLiveButton?.classList.toggle("is-active", enabled);
+  logLiveButton?.setAttribute("aria-pressed", String(enabled));
+  if (enabled && logArchiveSelect) logArchiveSelect.value = "";
+  if (activeTab !== "logs") return;
+  if (enabled) {
+    startLogStream();
+  } else {
+    stopLogStream();
+    void loadLogsFromServer();
+  }
+}
+
 async function clearActiveLogsOnServer() {
   if (logMetaElement) {
     logMetaElement.textContent = `Clearing ${activeLogStream} logs...`;
@@ -534,7 +1764,10 @@ async function clearActiveLogsOnServer() {
   setLogsActionButtonsDisabled(true);
 
   try {
-    const response = await fetch(`/api/logs?stream=${activeLogStream}`, {
+    const query = {
+      stream: activeLogStream,
+    } satisfies Record<keyof ClearLogsQuery, string>;
+    const response = await fetch(`/api/logs?${new URLSearchParams(query)}`, {
       method: "DELETE",
       headers: { Accept: "application/json" },
       credentials: "include",
@@ -545,11 +1778,9 @@ async function clearActiveLogsOnServer() {
     }
 
     const payload = await response.json();
-    const statusPayload = statusResponseSchema.safeParse(payload);
     if (!response.ok) {
-      if (statusPayload.success && statusPayload.data.error) {
-        throw new Error(statusPayload.data.error);
-      }
+      const parsedError = apiErrorResponseSchema.safeParse(payload);
+      if (parsedError.success) throw new Error(parsedError.data.error);
       throw new Error("Failed to clear logs.");
     }
 
@@ -558,7 +1789,9 @@ async function clearActiveLogsOnServer() {
       throw new Error(formatZodError(parsed.error));
     }
 
-    await loadLogsFromServer();
+    // The live stream reports the cleared file itself.
+    if (logArchiveSelect) logArchiveSelect.value = "";
+    if (!isLogLiveMode) await loadLogsFromServer();
   } catch (error) {
     if (logMetaElement) {
       logMetaElement.textContent =
@@ -572,7 +1805,7 @@ async function clearActiveLogsOnServer() {
 for (const tabButton of tabButtons) {
   tabButton.addEventListener("click", () => {
     const targetTab = tabButton.dataset.tab;
-    if (targetTab !== "config" && targetTab !== "logs") return;
+    if (!isTabName(targetTab)) return;
     activateTab(targetTab);
   });
 
@@ -587,7 +1820,7 @@ for (const tabButton of tabButtons) {
     }
 
     event.preventDefault();
-    const tabOrder: Array<"config" | "logs"> = ["config", "logs"];
+    const tabOrder = TAB_ORDER;
     const currentIndex = tabOrder.indexOf(activeTab);
     let nextTab = activeTab;
 
@@ -615,7 +1848,9 @@ for (const streamButton of logStreamButtons) {
     const stream = streamButton.dataset.stream;
     if (!stream || !isLogStream(stream) || stream === activeLogStream) return;
     setActiveLogStream(stream);
-    void loadLogsFromServer();
+    // Each stream has its own archives.
+    if (logArchiveSelect) logArchiveSelect.value = "";
+    reloadLogs();
   });
 }
 
@@ -634,18 +1869,56 @@ for (const sortButton of logSortButtons) {
   });
 }
 
-logSearchInput?.addEventListener("input", () => {
-  renderLogs();
+for (const filterInput of [
+  logSearchInput,
+  logLevelSelect,
+  logRunInput,
+  logMetadataInput,
+  logSinceInput,
+  logUntilInput,
+]) {
+  filterInput?.addEventListener("input", scheduleLogsReload);
+}
+
+logReloadButton?.addEventListener("click", reloadLogs);
+
+logArchiveSelect?.addEventListener("change", () => {
+  if (isLogLiveMode) {
+    setLogLiveMode(false);
+  } else {
+    void loadLogsFromServer();
+  }
 });
 
-logReloadButton?.addEventListener("click", () => {
-  void loadLogsFromServer();
+logOlderButton?.addEventListener("click", () => {
+  if (latestLogsCursor) void loadLogsFromServer(latestLogsCursor);
+});
+
+logLiveButton?.addEventListener("click", () => {
+  setLogLiveMode(!isLogLiveMode);
 });
 
 logClearButton?.addEventListener("click", () => {
   void clearActiveLogsOnServer();
 });
 
+getInput("statusTemplate")?.addEventListener("input", () => {
+  renderStatusTemplatePreview();
+});
+
+scheduleGridElement?.addEventListener("click", (event) => {
+  if (!(event.target instanceof HTMLElement)) return;
+  toggleScheduleCell(event.target);
+});
+
+getInput("scheduleEnabled")?.addEventListener("change", () => {
+  renderScheduleGrid();
+});
+
+slackTestButton?.addEventListener("click", () => {
+  void testSlackConnection();
+});
+
 reloadButton?.addEventListener("click", () => {
   void loadConfigFromServer();
 });
@@ -661,12 +1934,51 @@ formElement?.addEventListener("submit", (event) => {
   void saveConfigToServer();
 });
 
+historyReloadButton?.addEventListener("click", () => {
+  void loadConfigHistory();
+});
+
+dashboardReloadButton?.addEventListener("click", () => {
+  void loadDashboardFromServer();
+});
+
+historyListElement?.addEventListener("click", (event) => {
+  if (!(event.target instanceof HTMLElement)) return;
+  const id = event.target.dataset.restoreId;
+  if (id) void restoreConfigVersion(id);
+});
+
 window.setInterval(() => {
-  if (activeTab !== "logs") return;
-  void loadLogsFromServer();
-}, LOG_AUTO_REFRESH_INTERVAL_MS);
+  if (activeTab === "config") {
+    void loadWorkspacesFromServer();
+    return;
+  }
+  if (activeTab === "dashboard") void loadDashboardFromServer();
+}, AUTO_REFRESH_INTERVAL_MS);
+
+// Shows the outcome of the Slack OAuth redirect once, then drops it from the address bar.
+function consumeOAuthResult() {
+  const params = new URLSearchParams(window.location.search);
+  const result = params.get("oauth");
+  if (!result) return undefined;
+  window.history.replaceState(null, "", window.location.pathname);
+  if (result === "connected") {
+    return {
+      kind: "ok" as const,
+      message: `Connected Slack workspace "${params.get("workspace") ?? ""}".`,
+    };
+  }
+  return {
+    kind: "error" as const,
+    message: params.get("message") ?? "Connecting Slack failed.",
+  };
+}
 
+renderConfigFields();
 setActiveTab(activeTab);
 setActiveLogStream(activeLogStream);
 setActiveLogSortDirection(activeLogSortDirection);
-void loadConfigFromServer();
+const oauthResult = consumeOAuthResult();
+void loadConfigFromServer().then(() => {
+  if (oauthResult) setStatusMessage(oauthResult.kind, oauthResult.message);
+});